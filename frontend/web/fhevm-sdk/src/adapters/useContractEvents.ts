@@ -0,0 +1,74 @@
+/**
+ * Wagmi-like hook for contract event subscriptions
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import {
+  ContractEvent,
+  ContractEventOptions,
+  FhevmContract,
+  FhevmError,
+} from '../core/index.js';
+
+export interface UseContractEventsOptions extends Omit<ContractEventOptions, 'onError' | 'signal'> {
+  /** Most recent events kept in state, defaults to 100 */
+  maxEvents?: number;
+  /** Called for every delivered event, including `removed` ones */
+  onEvent?: (event: ContractEvent) => void;
+}
+
+export function useContractEvents(
+  contract: FhevmContract | null,
+  eventNames: string[],
+  options: UseContractEventsOptions = {}
+) {
+  const [events, setEvents] = useState<ContractEvent[]>([]);
+  const [isBackfilling, setIsBackfilling] = useState(false);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  // Latest options without resubscribing on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Signatures like "Transfer(address,uint256)" contain commas, so the key is JSON
+  const eventKey = JSON.stringify(eventNames);
+
+  useEffect(() => {
+    if (!contract) return;
+
+    const subscribedNames: string[] = JSON.parse(eventKey);
+    const { maxEvents = 100, onEvent, ...subscribeOptions } = optionsRef.current;
+    const controller = new AbortController();
+    setEvents([]);
+    setError(null);
+    setIsBackfilling(true);
+
+    const sameLog = (a: ContractEvent, b: ContractEvent) => a.blockHash === b.blockHash && a.logIndex === b.logIndex;
+    const subscription = contract.subscribe(subscribedNames, event => {
+      setEvents(previous => event.removed
+        ? previous.filter(existing => !sameLog(existing, event))
+        : [event, ...previous].slice(0, maxEvents));
+      optionsRef.current.onEvent?.(event);
+    }, {
+      ...subscribeOptions,
+      signal: controller.signal,
+      onError: setError,
+    });
+
+    subscription.ready
+      .catch(() => {})
+      .finally(() => {
+        if (!controller.signal.aborted) setIsBackfilling(false);
+      });
+
+    return () => {
+      controller.abort();
+      subscription.unsubscribe();
+    };
+  }, [contract, eventKey]);
+
+  return {
+    events,
+    isBackfilling,
+    error,
+  };
+}
@@ -3,37 +3,56 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import {
+  publicDecryptV09,
+  AclDeniedError,
+  FhevmCallOptions,
+  FhevmError,
+  throwIfAborted,
+  toFhevmError,
+  withAbort,
+} from '../core/index.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
     contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+    options: FhevmCallOptions = {}
   ) => {
     setIsDecrypting(true);
-    setError('');
+    setError(null);
     
     try {
-      const decryptionResult = await publicDecryptV09(handles);
+      const decryptionResult = await publicDecryptV09(handles, options);
+
+      // The contract verifies the proof against every handle it asked for
+      const denied = Object.values(decryptionResult.denied);
+      if (denied.length > 0) {
+        throw new AclDeniedError(denied.map(denial => denial.message).join('; '));
+      }
       
+      // Do not send the verification transaction for a cancelled call
+      throwIfAborted(options.signal);
       const tx = await verifyFunction(
         decryptionResult.abiEncodedClearValues,
         decryptionResult.decryptionProof
       );
       
-      const receipt = await tx.wait();
+      const receipt = await withAbort<any>(tx.wait(), options.signal);
       
       return {
         decryptionResult,
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      const fhevmError = toFhevmError(err, 'DECRYPTION_FAILED');
+      // A cancelled call is not an error to show
+      if (fhevmError.code !== 'ABORTED') setError(fhevmError);
+      throw fhevmError;
     } finally {
       setIsDecrypting(false);
     }
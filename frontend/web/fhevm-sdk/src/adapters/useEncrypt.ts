@@ -3,23 +3,47 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import {
+  createEncryptedInput,
+  getDefaultClient,
+  FheInputValue,
+  FheType,
+  FhevmCallOptions,
+  FhevmError,
+  FhevmProgressEvent,
+  toFhevmError,
+} from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
+  // Only reported when the client encrypts in a Web Worker
+  const [progress, setProgress] = useState<FhevmProgressEvent | null>(null);
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const encrypt = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    value: FheInputValue,
+    type: FheType = 'euint32',
+    options?: FhevmCallOptions
+  ) => {
     setIsEncrypting(true);
-    setError('');
-    
+    setError(null);
+    setProgress(null);
+    const unsubscribe = getDefaultClient().onProgress(event => {
+      if (event.task === 'encrypt') setProgress(event);
+    });
+
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await createEncryptedInput(contractAddress, userAddress, value, type, options);
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const fhevmError = toFhevmError(err, 'ENCRYPTION_FAILED');
+      // A cancelled call is not an error to show
+      if (fhevmError.code !== 'ABORTED') setError(fhevmError);
+      throw fhevmError;
     } finally {
+      unsubscribe();
       setIsEncrypting(false);
     }
   }, []);
@@ -27,6 +51,7 @@ export function useEncrypt() {
   return {
     encrypt,
     isEncrypting,
+    progress,
     error,
   };
 }
@@ -3,26 +3,40 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import {
+  initializeFheInstance,
+  FhevmCallOptions,
+  FhevmClientOptions,
+  FhevmError,
+  getLogger,
+  isFhevmError,
+  toFhevmError,
+} from '../core/index.js';
+
+const log = getLogger('react');
 
 export function useFhevm() {
   const [instance, setInstance] = useState<any>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (options?: FhevmClientOptions, callOptions?: FhevmCallOptions) => {
     setStatus('loading');
-    setError('');
+    setError(null);
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance(options, callOptions);
       setInstance(fheInstance);
       setStatus('ready');
-      console.log('✅ FHEVM initialized');
+      log.info('FHEVM initialized');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      if (isFhevmError(err, 'ABORTED')) {
+        setStatus('idle');
+        return;
+      }
+      setError(toFhevmError(err, 'INITIALIZATION_FAILED'));
       setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      log.error('FHEVM initialization failed', err);
     }
   }, []);
 
@@ -0,0 +1,37 @@
+/**
+ * Wagmi-like hook for following sent transactions
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import {
+  getDefaultTransactionTracker,
+  TrackTransactionOptions,
+  TransactionState,
+} from '../core/index.js';
+
+export function useTransactions(provider?: ethers.Provider | null) {
+  const [transactions, setTransactions] = useState<TransactionState[]>(() => getDefaultTransactionTracker().getAll());
+
+  useEffect(() => {
+    const tracker = getDefaultTransactionTracker();
+    setTransactions(tracker.getAll());
+    return tracker.subscribe(() => setTransactions(tracker.getAll()));
+  }, []);
+
+  // Pick up transactions still pending from a previous page load
+  useEffect(() => {
+    if (!provider) return;
+    getDefaultTransactionTracker().resume(provider).catch(() => {});
+  }, [provider]);
+
+  const track = useCallback((tx: ethers.TransactionResponse, options?: TrackTransactionOptions) => {
+    return getDefaultTransactionTracker().track(tx, options);
+  }, []);
+
+  return {
+    transactions,
+    pending: transactions.filter(tx => tx.status === 'submitted' || tx.status === 'mined'),
+    track,
+  };
+}
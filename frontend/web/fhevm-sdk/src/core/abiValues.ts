@@ -0,0 +1,56 @@
+/**
+ * FHEVM ABI Values - Universal SDK
+ * Locate encrypted handles in decoded call results and event arguments using the JSON ABI's internal types
+ */
+
+import { ethers } from 'ethers';
+import { FheType, FHE_TYPE_IDS } from './fheTypes.js';
+
+/**
+ * FHE type of an `euintXX` / `ebool` / `eaddress` output (or array element) internal type
+ */
+export function encryptedOutputType(internalType?: string): FheType | undefined {
+  const base = internalType?.replace(/(\[\d*\])+$/, '');
+  return base && base in FHE_TYPE_IDS ? base as FheType : undefined;
+}
+
+/**
+ * Cleartext of an uninitialized (zero handle) value
+ */
+export function defaultClearValue(type: FheType) {
+  if (type === 'ebool') return false;
+  if (type === 'eaddress') return ethers.ZeroAddress;
+  return 0n;
+}
+
+/**
+ * Walk a decoded value alongside its ABI type and replace every encrypted handle with `map(handle, type)`.
+ * Tuples become objects when all their components are named, arrays otherwise.
+ */
+export function mapEncrypted(
+  value: any,
+  param: ethers.ParamType,
+  raw: ethers.JsonFragmentType | undefined,
+  map: (handle: string, type: FheType) => any
+): any {
+  if (param.isArray()) {
+    const element = raw ? { ...raw, type: param.arrayChildren.type, internalType: raw.internalType?.replace(/\[\d*\]$/, '') } : undefined;
+    return Array.from(value as any[], item => mapEncrypted(item, param.arrayChildren, element, map));
+  }
+  if (param.isTuple()) {
+    return mapComponents(Array.from(value as any[]), param.components, raw?.components, map);
+  }
+  const type = param.type === 'bytes32' ? encryptedOutputType(raw?.internalType) : undefined;
+  return type ? map(value, type) : value;
+}
+
+export function mapComponents(
+  values: any[],
+  params: ReadonlyArray<ethers.ParamType>,
+  raw: ReadonlyArray<ethers.JsonFragmentType> | undefined,
+  map: (handle: string, type: FheType) => any
+): any {
+  const mapped = values.map((value, index) => mapEncrypted(value, params[index], raw?.[index], map));
+  if (params.length === 0 || !params.every(param => param.name)) return mapped;
+  return Object.fromEntries(params.map((param, index) => [param.name, mapped[index]]));
+}
@@ -0,0 +1,43 @@
+/**
+ * FHEVM Cancellation - Universal SDK
+ * AbortSignal helpers shared by the long-running SDK calls
+ */
+
+import { AbortedError } from './errors.js';
+import type { RetryPolicy } from './retry.js';
+
+export interface FhevmCallOptions {
+  /** Cancel the call - it rejects with AbortedError and its result is discarded */
+  signal?: AbortSignal;
+  /** Override the client's retry policy for this call - `false` makes a single attempt */
+  retry?: RetryPolicy | false;
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AbortedError(undefined, signal.reason);
+  }
+}
+
+/**
+ * Reject as soon as the signal aborts, ignoring whatever the promise settles with later
+ */
+export function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new AbortedError(undefined, signal.reason));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new AbortedError(undefined, signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ACL_ABI, AclChecker } from './acl.js';
+import { AclDeniedError } from './errors.js';
+import { FhevmClient } from './fhevm.js';
+import { FHE_TYPE_IDS } from './fheTypes.js';
+import { SEPOLIA_NETWORK } from './networks.js';
+
+const ACL = new ethers.Interface(ACL_ABI);
+const CONTRACT_ADDRESS = '0xcccccccccccccccccccccccccccccccccccccccc';
+const wallet = ethers.Wallet.createRandom();
+
+const HANDLE = ethers.hexlify(ethers.concat([
+  ethers.zeroPadValue('0x1234', 21),
+  new Uint8Array([0xff]),
+  ethers.toBeHex(SEPOLIA_NETWORK.chainId, 8),
+  new Uint8Array([FHE_TYPE_IDS.euint32, 0]),
+]));
+
+/**
+ * Node answering the ACL view calls with `allowed`
+ */
+function createAclRunner(allowed: (account: string) => boolean) {
+  return {
+    call: vi.fn(async (tx: ethers.TransactionRequest) => {
+      const call = ACL.parseTransaction({ data: tx.data as string })!;
+      const result = call.name === 'isAllowedForDecryption' ? allowed('') : allowed(call.args[1]);
+      return ACL.encodeFunctionResult(call.name, [result]);
+    }),
+  };
+}
+
+function createAcl(allowed: (account: string) => boolean) {
+  return new AclChecker(createAclRunner(allowed) as unknown as ethers.ContractRunner, SEPOLIA_NETWORK.aclContractAddress);
+}
+
+describe('AclChecker', () => {
+  it.each([
+    ['the user', (account: string) => account !== wallet.address, 'USER_NOT_ALLOWED'],
+    ['the contract', (account: string) => account === wallet.address, 'CONTRACT_NOT_ALLOWED'],
+  ])('denies user decryption when the ACL does not allow %s', async (_, allowed, reason) => {
+    const denied = await createAcl(allowed).checkUserDecryption([{ handle: HANDLE, contractAddress: CONTRACT_ADDRESS }], wallet.address);
+
+    expect(denied).toEqual({ [HANDLE]: expect.objectContaining({ handle: HANDLE, reason }) });
+  });
+
+  it('allows user decryption when both are allowed', async () => {
+    await expect(createAcl(() => true).checkUserDecryption([{ handle: HANDLE, contractAddress: CONTRACT_ADDRESS }], wallet.address))
+      .resolves.toEqual({});
+  });
+
+  it('denies decryption for the contract itself without asking the node', async () => {
+    const runner = createAclRunner(() => true);
+    const acl = new AclChecker(runner as unknown as ethers.ContractRunner, SEPOLIA_NETWORK.aclContractAddress);
+
+    const denied = await acl.checkUserDecryption([{ handle: HANDLE, contractAddress: CONTRACT_ADDRESS }], CONTRACT_ADDRESS);
+
+    expect(denied[HANDLE].reason).toBe('USER_IS_CONTRACT');
+    expect(runner.call).not.toHaveBeenCalled();
+  });
+
+  it('denies public decryption of handles not marked decryptable', async () => {
+    await expect(createAcl(() => false).checkPublicDecryption([HANDLE])).resolves.toEqual({
+      [HANDLE]: expect.objectContaining({ reason: 'NOT_PUBLICLY_DECRYPTABLE' }),
+    });
+  });
+});
+
+describe('FhevmClient.decryptValue', () => {
+  /**
+   * Client initialized on Sepolia with a fake relayer instance and the given ACL
+   */
+  function createClient(acl: AclChecker) {
+    const client = new FhevmClient();
+    const instance = { userDecrypt: vi.fn(), generateKeypair: vi.fn(), createEIP712: vi.fn() };
+    Object.assign(client, { instance, network: SEPOLIA_NETWORK, acl });
+    return { client, instance };
+  }
+
+  it('throws AclDeniedError without signing or calling the relayer when the ACL returns false', async () => {
+    const { client, instance } = createClient(createAcl(account => account !== wallet.address));
+    const signer = { getAddress: async () => wallet.address, signTypedData: vi.fn() };
+    const failed = vi.fn();
+    client.on('decryption:failed', failed);
+
+    const decryption = client.decryptValue(HANDLE, CONTRACT_ADDRESS, signer);
+
+    await expect(decryption).rejects.toBeInstanceOf(AclDeniedError);
+    await expect(decryption).rejects.toMatchObject({ code: 'ACL_DENIED', message: expect.stringContaining(wallet.address) });
+    expect(signer.signTypedData).not.toHaveBeenCalled();
+    expect(instance.generateKeypair).not.toHaveBeenCalled();
+    expect(instance.userDecrypt).not.toHaveBeenCalled();
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ handles: [HANDLE], error: expect.any(AclDeniedError) }));
+  });
+
+  it('reports a contract without permission on the handle', async () => {
+    const { client } = createClient(createAcl(account => account === wallet.address));
+
+    await expect(client.decryptValue(HANDLE, CONTRACT_ADDRESS, wallet)).rejects.toMatchObject({
+      code: 'ACL_DENIED',
+      message: expect.stringContaining(`Contract ${CONTRACT_ADDRESS} is not allowed`),
+    });
+  });
+});
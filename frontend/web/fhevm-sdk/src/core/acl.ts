@@ -0,0 +1,116 @@
+/**
+ * FHEVM ACL Checks - Universal SDK
+ * On-chain permission checks run before asking the relayer to decrypt
+ */
+
+import { ethers } from 'ethers';
+import { FhevmNetworkConfig } from './networks.js';
+import { HandleContractPair } from './decryption.js';
+
+/**
+ * View functions of the FHEVM ACL contract
+ */
+export const ACL_ABI = [
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function persistAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+];
+
+export type AclDenialReason =
+  | 'USER_NOT_ALLOWED'
+  | 'CONTRACT_NOT_ALLOWED'
+  | 'USER_IS_CONTRACT'
+  | 'NOT_PUBLICLY_DECRYPTABLE';
+
+export interface AclDenial {
+  handle: string;
+  reason: AclDenialReason;
+  message: string;
+}
+
+/**
+ * Reads handle permissions from the network's ACL contract
+ */
+export class AclChecker {
+  private acl: ethers.Contract;
+
+  constructor(runner: ethers.ContractRunner, aclAddress: string) {
+    this.acl = new ethers.Contract(aclAddress, ACL_ABI, runner);
+  }
+
+  static forNetwork(network: FhevmNetworkConfig, runner: ethers.ContractRunner) {
+    return new AclChecker(runner, network.aclContractAddress);
+  }
+
+  isAllowed(handle: string, account: string): Promise<boolean> {
+    return this.acl.isAllowed(handle, account);
+  }
+
+  /**
+   * Permanent (non-transient) permission of an account on a handle
+   */
+  persistAllowed(handle: string, account: string): Promise<boolean> {
+    return this.acl.persistAllowed(handle, account);
+  }
+
+  isAllowedForDecryption(handle: string): Promise<boolean> {
+    return this.acl.isAllowedForDecryption(handle);
+  }
+
+  /**
+   * Handles the user cannot decrypt - both the user and the contract must be allowed on each handle
+   */
+  async checkUserDecryption(pairs: HandleContractPair[], userAddress: string): Promise<Record<string, AclDenial>> {
+    const denied: Record<string, AclDenial> = {};
+
+    await Promise.all(pairs.map(async ({ handle, contractAddress }) => {
+      if (contractAddress.toLowerCase() === userAddress.toLowerCase()) {
+        denied[handle] = {
+          handle,
+          reason: 'USER_IS_CONTRACT',
+          message: `User ${userAddress} cannot be the contract the handle is decrypted for`,
+        };
+        return;
+      }
+
+      const [userAllowed, contractAllowed] = await Promise.all([
+        this.isAllowed(handle, userAddress),
+        this.isAllowed(handle, contractAddress),
+      ]);
+      if (!userAllowed) {
+        denied[handle] = {
+          handle,
+          reason: 'USER_NOT_ALLOWED',
+          message: `User ${userAddress} is not allowed to decrypt handle ${handle}`,
+        };
+      } else if (!contractAllowed) {
+        denied[handle] = {
+          handle,
+          reason: 'CONTRACT_NOT_ALLOWED',
+          message: `Contract ${contractAddress} is not allowed on handle ${handle}`,
+        };
+      }
+    }));
+
+    return denied;
+  }
+
+  /**
+   * Handles that have not been marked publicly decryptable
+   */
+  async checkPublicDecryption(handles: string[]): Promise<Record<string, AclDenial>> {
+    const denied: Record<string, AclDenial> = {};
+
+    await Promise.all(handles.map(async handle => {
+      if (!(await this.isAllowedForDecryption(handle))) {
+        denied[handle] = {
+          handle,
+          reason: 'NOT_PUBLICLY_DECRYPTABLE',
+          message: `Handle ${handle} is not publicly decryptable`,
+        };
+      }
+    }));
+
+    return denied;
+  }
+}
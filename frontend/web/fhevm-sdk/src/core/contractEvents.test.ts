@@ -0,0 +1,303 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import artifact from '../../../../../artifacts/contracts/universalfheadapter.sol/UniversalFHEAdapter.json';
+import { ContractEvent, ContractEventOptions, ContractEventWatcher, EventDecryptor } from './contractEvents.js';
+import { DecryptionOutcome } from './decryption.js';
+
+const ABI = artifact.abi as ethers.JsonFragment[];
+const CONTRACT_ADDRESS = '0xcccccccccccccccccccccccccccccccccccccccc';
+const OWNER = '0x1111111111111111111111111111111111111111';
+const POLL_MS = 1000;
+
+/** Event with an encrypted field, as the compiler writes it to the JSON ABI */
+const ENCRYPTED_ABI: ethers.JsonFragment[] = [{
+  type: 'event',
+  name: 'ValueStored',
+  anonymous: false,
+  inputs: [
+    { indexed: true, internalType: 'address', name: 'owner', type: 'address' },
+    { indexed: false, internalType: 'euint32', name: 'value', type: 'bytes32' },
+    { indexed: false, internalType: 'ebool', name: 'flag', type: 'bytes32' },
+  ],
+}];
+
+interface FakeBlock {
+  hash: string;
+  events: Array<{ name: string; values: any[] }>;
+}
+
+/**
+ * Chain whose blocks can be appended and replaced, serving eth_getLogs like a node would
+ */
+class FakeChain {
+  blocks: FakeBlock[] = [];
+  iface: ethers.Interface;
+  getLogs = vi.fn(async (filter: ethers.Filter) => this.logs(Number(filter.fromBlock), Number(filter.toBlock)));
+  getBlockNumber = vi.fn(async () => this.blocks.length - 1);
+  private forks = 0;
+
+  constructor(abi: ethers.JsonFragment[], height: number) {
+    this.iface = new ethers.Interface(abi);
+    for (let i = 0; i <= height; i++) this.mine();
+  }
+
+  mine(events: FakeBlock['events'] = []) {
+    this.blocks.push({ hash: this.blockHash(this.blocks.length), events });
+    return this.blocks.length - 1;
+  }
+
+  /** Replace a block with another one of the same height */
+  reorg(number: number, events: FakeBlock['events']) {
+    this.forks++;
+    this.blocks[number] = { hash: this.blockHash(number), events };
+  }
+
+  private blockHash(number: number) {
+    return ethers.id(`block-${number}-${this.forks}`);
+  }
+
+  private logs(from: number, to: number): ethers.Log[] {
+    const logs: ethers.Log[] = [];
+    for (let number = from; number <= to && number < this.blocks.length; number++) {
+      const block = this.blocks[number];
+      block.events.forEach(({ name, values }, index) => {
+        const { data, topics } = this.iface.encodeEventLog(name, values);
+        logs.push({
+          address: CONTRACT_ADDRESS,
+          blockNumber: number,
+          blockHash: block.hash,
+          transactionHash: ethers.id(`${block.hash}-${index}`),
+          transactionIndex: index,
+          index,
+          removed: false,
+          data,
+          topics,
+        } as unknown as ethers.Log);
+      });
+    }
+    return logs;
+  }
+}
+
+function verified(businessId: string, value: number) {
+  return { name: 'DecryptionVerified', values: [businessId, value] };
+}
+
+function watch(
+  chain: FakeChain,
+  options: ContractEventOptions = {},
+  { abi = ABI, eventNames = ['DecryptionVerified'], decryptor = vi.fn() as EventDecryptor } = {}
+) {
+  const contract = new ethers.Contract(CONTRACT_ADDRESS, abi, { provider: chain } as unknown as ethers.ContractRunner);
+  const events: ContractEvent[] = [];
+  const watcher = new ContractEventWatcher(contract, eventNames, event => events.push(event), decryptor, abi, {
+    pollingIntervalMs: POLL_MS,
+    ...options,
+  });
+  return { events, subscription: watcher.start() };
+}
+
+const summary = (events: ContractEvent[]) =>
+  events.map(event => [event.blockNumber, Number(event.args.decryptedValue), event.removed]);
+
+describe('ContractEventWatcher', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backfills from fromBlock before following new blocks', async () => {
+    const chain = new FakeChain(ABI, 2);
+    chain.mine([verified('doc-1', 1)]);
+    chain.mine([verified('doc-2', 2), verified('doc-3', 3)]);
+
+    const { events, subscription } = watch(chain, { fromBlock: 3 });
+    await subscription.ready;
+
+    expect(summary(events)).toEqual([[3, 1, false], [4, 2, false], [4, 3, false]]);
+    expect(events[1].logIndex).toBe(0);
+    expect(events[2].logIndex).toBe(1);
+    subscription.unsubscribe();
+  });
+
+  it('splits the backfill into maxBlockRange requests', async () => {
+    const chain = new FakeChain(ABI, 9);
+
+    const { subscription } = watch(chain, { fromBlock: 0, maxBlockRange: 4 });
+    await subscription.ready;
+
+    expect(chain.getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock])).toEqual([[0, 3], [4, 7], [8, 9]]);
+    subscription.unsubscribe();
+  });
+
+  it('only delivers new events without fromBlock', async () => {
+    const chain = new FakeChain(ABI, 2);
+    chain.mine([verified('old', 1)]);
+
+    const { events, subscription } = watch(chain);
+    await subscription.ready;
+    chain.mine([verified('new', 2)]);
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(summary(events)).toEqual([[4, 2, false]]);
+    subscription.unsubscribe();
+  });
+
+  it('does not deliver a backfilled event again when live polling rescans its block', async () => {
+    const chain = new FakeChain(ABI, 2);
+    chain.mine([verified('doc-1', 1)]);
+
+    const { events, subscription } = watch(chain, { fromBlock: 0 });
+    await subscription.ready;
+    chain.mine([verified('doc-2', 2)]);
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    // Every poll rescanned block 3 within the reorg depth
+    expect(chain.getLogs.mock.calls.every(([filter]) => Number(filter.fromBlock) <= 3)).toBe(true);
+    expect(summary(events)).toEqual([[3, 1, false], [4, 2, false]]);
+    subscription.unsubscribe();
+  });
+
+  it('reports events of a reorganized block as removed and delivers the new ones', async () => {
+    const chain = new FakeChain(ABI, 2);
+    const forked = chain.mine([verified('doc-1', 1)]);
+
+    const { events, subscription } = watch(chain, { fromBlock: 0 });
+    await subscription.ready;
+    const original = events[0];
+
+    chain.reorg(forked, [verified('doc-1', 7)]);
+    chain.mine();
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(summary(events)).toEqual([[3, 1, false], [3, 1, true], [3, 7, false]]);
+    expect(events[1].blockHash).toBe(original.blockHash);
+    expect(events[2].blockHash).not.toBe(original.blockHash);
+    subscription.unsubscribe();
+  });
+
+  it('forgets events older than the reorg depth', async () => {
+    const chain = new FakeChain(ABI, 0);
+    const old = chain.mine([verified('doc-1', 1)]);
+
+    const { events, subscription } = watch(chain, { fromBlock: 0, reorgDepth: 2 });
+    await subscription.ready;
+    for (let i = 0; i < 4; i++) chain.mine();
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    // Too deep to be rescanned - a change there is not reported
+    chain.reorg(old, []);
+    chain.mine();
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(summary(events)).toEqual([[1, 1, false]]);
+    subscription.unsubscribe();
+  });
+
+  it('waits for confirmations before delivering', async () => {
+    const chain = new FakeChain(ABI, 2);
+
+    const { events, subscription } = watch(chain, { confirmations: 2 });
+    await subscription.ready;
+    chain.mine([verified('doc-1', 1)]);
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(events).toEqual([]);
+
+    chain.mine();
+    chain.mine();
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    expect(summary(events)).toEqual([[3, 1, false]]);
+    subscription.unsubscribe();
+  });
+
+  it('stops polling once unsubscribed', async () => {
+    const chain = new FakeChain(ABI, 2);
+
+    const { events, subscription } = watch(chain);
+    await subscription.ready;
+    subscription.unsubscribe();
+    chain.mine([verified('doc-1', 1)]);
+    await vi.advanceTimersByTimeAsync(POLL_MS * 3);
+
+    expect(events).toEqual([]);
+    expect(chain.getBlockNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps polling after a failed poll and reports it', async () => {
+    const chain = new FakeChain(ABI, 2);
+    const onError = vi.fn();
+
+    const { events, subscription } = watch(chain, { onError });
+    await subscription.ready;
+    chain.getLogs.mockRejectedValueOnce(new Error('fetch failed'));
+    chain.mine([verified('doc-1', 1)]);
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+    await vi.advanceTimersByTimeAsync(POLL_MS);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'RELAYER_UNAVAILABLE' }));
+    expect(summary(events)).toEqual([[3, 1, false]]);
+    subscription.unsubscribe();
+  });
+
+  it('rejects unknown event names', () => {
+    expect(() => watch(new FakeChain(ABI, 0), {}, { eventNames: ['Missing'] })).toThrow(/Events Missing not found/);
+  });
+
+  describe('decrypt', () => {
+    const handle = (byte: string, typeId: string) => `0x${byte.repeat(30)}${typeId}00`;
+    const VALUE = handle('aa', '04');
+    const FLAG = handle('bb', '00');
+    const DENIED = handle('cc', '04');
+
+    it('decrypts the handles of a poll in one batch', async () => {
+      const chain = new FakeChain(ENCRYPTED_ABI, 0);
+      chain.mine([
+        { name: 'ValueStored', values: [OWNER, VALUE, ethers.ZeroHash] },
+        { name: 'ValueStored', values: [OWNER, DENIED, FLAG] },
+      ]);
+      const decryptor = vi.fn(async (): Promise<Record<string, DecryptionOutcome>> => ({
+        [VALUE]: { status: 'decrypted', value: { type: 'euint32', value: 42n } },
+        [FLAG]: { status: 'decrypted', value: { type: 'ebool', value: true } },
+        [DENIED]: { status: 'denied', handle: DENIED, reason: 'USER_NOT_ALLOWED', message: 'Not allowed' },
+      }));
+
+      const { events, subscription } = watch(chain, { fromBlock: 0, decrypt: true }, {
+        abi: ENCRYPTED_ABI,
+        eventNames: ['ValueStored'],
+        decryptor,
+      });
+      await subscription.ready;
+
+      expect(decryptor).toHaveBeenCalledTimes(1);
+      expect(decryptor.mock.calls[0]).toEqual([[VALUE, DENIED, FLAG], undefined]);
+      // Zero handles read as the type's default value
+      expect(events[0].args).toEqual({ owner: OWNER, value: 42n, flag: false });
+      expect(events[1].args).toEqual({ owner: OWNER, value: DENIED, flag: true });
+      expect(events[1].denied[DENIED]).toMatchObject({ reason: 'USER_NOT_ALLOWED' });
+      subscription.unsubscribe();
+    });
+
+    it('delivers the events with their handles when decryption fails', async () => {
+      const chain = new FakeChain(ENCRYPTED_ABI, 0);
+      chain.mine([{ name: 'ValueStored', values: [OWNER, VALUE, FLAG] }]);
+      const onError = vi.fn();
+
+      const { events, subscription } = watch(chain, { fromBlock: 0, decrypt: true, onError }, {
+        abi: ENCRYPTED_ABI,
+        eventNames: ['ValueStored'],
+        decryptor: vi.fn(async () => {
+          throw new Error('relayer down');
+        }),
+      });
+      await subscription.ready;
+
+      expect(events[0].args).toEqual({ owner: OWNER, value: VALUE, flag: FLAG });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'DECRYPTION_FAILED' }));
+      subscription.unsubscribe();
+    });
+  });
+});
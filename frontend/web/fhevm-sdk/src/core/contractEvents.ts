@@ -0,0 +1,317 @@
+/**
+ * FHEVM Contract Events - Universal SDK
+ * Event subscriptions with block-range backfill, reorg-safe deduplication
+ * and optional decryption of encrypted event fields
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError, ValidationError, toFhevmError } from './errors.js';
+import { isZeroHandle } from './handles.js';
+import { defaultClearValue, mapComponents } from './abiValues.js';
+import { FheType } from './fheTypes.js';
+import type { DecryptionOutcome } from './decryption.js';
+import type { AclDenial } from './acl.js';
+import { getLogger } from './logger.js';
+
+export interface ContractEvent {
+  /** Event name, e.g. "BusinessDataCreated" */
+  name: string;
+  /** Arguments keyed by name (by position for unnamed ones), with handles decrypted when requested */
+  args: Record<string, any>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** The log was dropped by a chain reorganization - undo whatever it triggered */
+  removed: boolean;
+  /** Handles the ACL would not let the user decrypt, left encrypted in `args` */
+  denied: Record<string, AclDenial>;
+  log: ethers.Log;
+}
+
+export type ContractEventListener = (event: ContractEvent) => void;
+
+export interface ContractEventOptions {
+  /** First block to backfill from, defaults to only new events */
+  fromBlock?: number;
+  /** Blocks an event waits before it is delivered, defaults to 0 */
+  confirmations?: number;
+  /** Recent blocks scanned again on every poll to detect reorgs, defaults to 12 */
+  reorgDepth?: number;
+  /** Block range of one eth_getLogs request, defaults to 2000 */
+  maxBlockRange?: number;
+  /** Polling interval for HTTP providers, defaults to 4000 ms - websocket providers push new blocks */
+  pollingIntervalMs?: number;
+  /** User-decrypt the euint/ebool/eaddress fields of the events */
+  decrypt?: boolean;
+  /** Signer authorizing the user decryption */
+  signer?: any;
+  /** Receives failed polls and decryptions - the subscription keeps running */
+  onError?: (error: FhevmError) => void;
+  signal?: AbortSignal;
+}
+
+export interface ContractEventSubscription {
+  /** Resolves once the backfill has been delivered */
+  ready: Promise<void>;
+  unsubscribe(): void;
+}
+
+export type EventDecryptor = (handles: string[], signer?: any) => Promise<Record<string, DecryptionOutcome>>;
+
+const log = getLogger('contract-events');
+
+function isPushProvider(provider: ethers.Provider) {
+  return provider instanceof ethers.SocketProvider;
+}
+
+function logKey(entry: ethers.Log) {
+  return `${entry.blockHash}:${entry.index}`;
+}
+
+/**
+ * Follows a contract's logs by block range; every poll rescans the last `reorgDepth` blocks,
+ * delivers logs it has not seen and reports seen logs that disappeared as `removed`
+ */
+export class ContractEventWatcher {
+  private contract: ethers.Contract;
+  private abi?: ReadonlyArray<ethers.JsonFragment>;
+  private decryptor: EventDecryptor;
+  private fragments: ethers.EventFragment[];
+  private listener: ContractEventListener;
+  private options: ContractEventOptions;
+  /** Delivered logs that can still be reorganized away */
+  private recent = new Map<string, ContractEvent>();
+  private startBlock: number | null = null;
+  private nextBlock = 0;
+  private stopped = false;
+  private polling: Promise<void> | null = null;
+  private stopTimer: (() => void) | null = null;
+
+  constructor(
+    contract: ethers.Contract,
+    eventNames: string[],
+    listener: ContractEventListener,
+    decryptor: EventDecryptor,
+    abi?: ReadonlyArray<ethers.JsonFragment>,
+    options: ContractEventOptions = {}
+  ) {
+    this.contract = contract;
+    this.abi = abi;
+    this.decryptor = decryptor;
+    this.listener = listener;
+    this.options = options;
+
+    const names = eventNames.length > 0 ? eventNames : ['*'];
+    this.fragments = [];
+    contract.interface.forEachEvent(fragment => {
+      if (names.includes('*') || names.includes(fragment.name) || names.includes(fragment.format())) {
+        this.fragments.push(fragment);
+      }
+    });
+    const unknown = names.filter(name => name !== '*' && !this.fragments.some(f => f.name === name || f.format() === name));
+    if (unknown.length > 0) {
+      throw new ValidationError('INVALID_INPUT', `Events ${unknown.join(', ')} not found in the contract ABI`);
+    }
+    if (options.decrypt && !abi) {
+      throw new ValidationError('INVALID_INPUT', 'Encrypted event fields are detected from the JSON ABI. Pass the ABI to the FhevmContract constructor.');
+    }
+  }
+
+  private get provider(): ethers.Provider {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new ValidationError('INVALID_INPUT', 'The contract is not connected to a provider');
+    }
+    return provider;
+  }
+
+  /**
+   * Backfill, then follow new blocks
+   */
+  start(): ContractEventSubscription {
+    const { signal } = this.options;
+    signal?.addEventListener('abort', () => this.stop(), { once: true });
+
+    // Keep following new blocks even when the backfill failed
+    const ready = this.poll().finally(() => {
+      if (this.stopped) return;
+      const provider = this.provider;
+      if (isPushProvider(provider)) {
+        const onBlock = () => this.schedulePoll();
+        provider.on('block', onBlock);
+        this.stopTimer = () => {
+          provider.off('block', onBlock);
+        };
+      } else {
+        const timer = setInterval(() => this.schedulePoll(), this.options.pollingIntervalMs ?? 4000);
+        this.stopTimer = () => clearInterval(timer);
+      }
+    });
+    // Backfill failures are reported through onError and `ready`
+    ready.catch(() => {});
+
+    return { ready, unsubscribe: () => this.stop() };
+  }
+
+  stop() {
+    this.stopped = true;
+    this.stopTimer?.();
+    this.stopTimer = null;
+    this.recent.clear();
+  }
+
+  private schedulePoll() {
+    // Skip a tick while the previous poll is still running
+    if (this.polling || this.stopped) return;
+    this.poll().catch(() => {});
+  }
+
+  private poll(): Promise<void> {
+    this.polling = this.scan()
+      .catch(error => {
+        const fhevmError = toFhevmError(error);
+        log.warn('Event poll failed', fhevmError.message);
+        this.options.onError?.(fhevmError);
+        throw fhevmError;
+      })
+      .finally(() => {
+        this.polling = null;
+      });
+    return this.polling;
+  }
+
+  private async scan() {
+    const { confirmations = 0, reorgDepth = 12 } = this.options;
+    const head = (await this.provider.getBlockNumber()) - confirmations;
+
+    if (this.startBlock === null) {
+      this.startBlock = this.options.fromBlock ?? head + 1;
+      this.nextBlock = this.startBlock;
+    }
+    const from = Math.max(this.startBlock, this.nextBlock - reorgDepth);
+    if (from > head || this.stopped) return;
+
+    const logs = await this.getLogs(from, head);
+    if (this.stopped) return;
+
+    // Logs we delivered in the rescanned range that are gone now were reorganized away
+    const current = new Set(logs.map(logKey));
+    for (const [key, event] of Array.from(this.recent)) {
+      if (event.blockNumber >= from && !current.has(key)) {
+        this.recent.delete(key);
+        this.deliver({ ...event, removed: true });
+      }
+    }
+
+    const fresh = logs.filter(entry => !this.recent.has(logKey(entry)));
+    const events = await this.decode(fresh);
+    for (const event of events) {
+      if (this.stopped) return;
+      this.recent.set(logKey(event.log), event);
+      this.deliver(event);
+    }
+
+    // Older blocks are final enough to stop tracking
+    for (const [key, event] of Array.from(this.recent)) {
+      if (event.blockNumber < head - reorgDepth) this.recent.delete(key);
+    }
+    this.nextBlock = head + 1;
+  }
+
+  private async getLogs(from: number, to: number): Promise<ethers.Log[]> {
+    const maxBlockRange = this.options.maxBlockRange ?? 2000;
+    const address = await this.contract.getAddress();
+    const topics = [this.fragments.map(fragment => fragment.topicHash)];
+    const logs: ethers.Log[] = [];
+
+    for (let start = from; start <= to; start += maxBlockRange) {
+      if (this.stopped) break;
+      const end = Math.min(to, start + maxBlockRange - 1);
+      logs.push(...await this.provider.getLogs({ address, topics, fromBlock: start, toBlock: end }));
+    }
+    return logs.filter(entry => !entry.removed);
+  }
+
+  private async decode(logs: ethers.Log[]): Promise<ContractEvent[]> {
+    const events: ContractEvent[] = [];
+    for (const entry of logs) {
+      const parsed = this.contract.interface.parseLog(entry);
+      if (!parsed) continue;
+      events.push({
+        name: parsed.name,
+        args: this.toArgs(parsed, handle => handle),
+        blockNumber: entry.blockNumber,
+        blockHash: entry.blockHash,
+        transactionHash: entry.transactionHash,
+        logIndex: entry.index,
+        removed: false,
+        denied: {},
+        log: entry,
+      });
+    }
+    if (!this.options.decrypt || events.length === 0) return events;
+
+    return this.decryptEvents(events);
+  }
+
+  private rawEvent(fragment: ethers.EventFragment) {
+    return this.abi?.find(item =>
+      item.type === 'event' &&
+      item.name === fragment.name &&
+      item.inputs?.length === fragment.inputs.length
+    );
+  }
+
+  private toArgs(parsed: ethers.LogDescription, map: (handle: string, type: FheType) => any): Record<string, any> {
+    const raw = this.rawEvent(parsed.fragment);
+    const values = mapComponents(Array.from(parsed.args), parsed.fragment.inputs, raw?.inputs, map);
+    return Array.isArray(values) ? { ...values } : values;
+  }
+
+  /**
+   * Decrypt the handles of a batch of events with one authorization
+   */
+  private async decryptEvents(events: ContractEvent[]): Promise<ContractEvent[]> {
+    const handles = new Set<string>();
+    for (const event of events) {
+      this.toArgs(this.contract.interface.parseLog(event.log)!, handle => {
+        if (!isZeroHandle(handle)) handles.add(handle);
+      });
+    }
+    if (handles.size === 0) return events;
+
+    let outcomes: Record<string, DecryptionOutcome>;
+    try {
+      outcomes = await this.decryptor(Array.from(handles), this.options.signer);
+    } catch (error) {
+      // Deliver the events with their handles rather than dropping them
+      const fhevmError = toFhevmError(error, 'DECRYPTION_FAILED');
+      log.warn('Event decryption failed', fhevmError.message);
+      this.options.onError?.(fhevmError);
+      return events;
+    }
+
+    return events.map(event => {
+      const denied: Record<string, AclDenial> = {};
+      const args = this.toArgs(this.contract.interface.parseLog(event.log)!, (handle, type) => {
+        if (isZeroHandle(handle)) return defaultClearValue(type);
+        const outcome = outcomes[handle];
+        if (outcome?.status === 'denied') {
+          denied[handle] = outcome;
+          return handle;
+        }
+        return outcome?.status === 'decrypted' ? outcome.value.value : handle;
+      });
+      return { ...event, args, denied };
+    });
+  }
+
+  private deliver(event: ContractEvent) {
+    try {
+      this.listener(event);
+    } catch (error) {
+      log.warn(`Listener for ${event.name} threw`, error);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import artifact from '../../../../../artifacts/contracts/universalfheadapter.sol/UniversalFHEAdapter.json';
+import { FhevmContract } from './contracts.js';
+import { AclDeniedError, TransactionRevertedError } from './errors.js';
+import type { FhevmClient } from './fhevm.js';
+import type { DecryptionOutcome } from './decryption.js';
+
+const ABI = artifact.abi as ethers.JsonFragment[];
+const CONTRACT_ADDRESS = '0xcccccccccccccccccccccccccccccccccccccccc';
+const USER = '0x1111111111111111111111111111111111111111';
+const HANDLE = `0x${'ab'.repeat(30)}0400`;
+const PROOF = '0x1234';
+
+function revertError(reason: string) {
+  const data = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+  return Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data });
+}
+
+function createRunner({ callError, callResult = '0x' }: { callError?: Error; callResult?: string } = {}) {
+  return {
+    provider: null,
+    getAddress: vi.fn(async () => USER),
+    call: vi.fn(async () => {
+      if (callError) throw callError;
+      return callResult;
+    }),
+    estimateGas: vi.fn(async () => 100000n),
+    sendTransaction: vi.fn(async (tx: ethers.TransactionRequest) => ({ ...tx, hash: `0x${'11'.repeat(32)}` })),
+  };
+}
+
+function createContract(
+  runner: ReturnType<typeof createRunner>,
+  /** JSON ABI given to FhevmContract, null for none */
+  abi: ethers.JsonFragment[] | null = ABI,
+  client?: Partial<FhevmClient>
+) {
+  const contract = new ethers.Contract(CONTRACT_ADDRESS, abi ?? ABI, runner as unknown as ethers.ContractRunner);
+  return new FhevmContract(contract, CONTRACT_ADDRESS, client as FhevmClient | undefined, abi ?? undefined);
+}
+
+const encrypted = { encryptedData: HANDLE, proof: PROOF };
+
+describe('FhevmContract.encryptAndCall', () => {
+  it('throws TransactionRevertedError before sending when the simulation reverts', async () => {
+    const runner = createRunner({ callError: revertError('Business data already exists') });
+
+    const call = createContract(runner).encryptAndCall('createBusinessData', encrypted, 'doc-1', 'Title', 1, 0, 'Body');
+
+    await expect(call).rejects.toBeInstanceOf(TransactionRevertedError);
+    await expect(call).rejects.toMatchObject({ revert: { kind: 'require', reason: 'Business data already exists' } });
+    expect(runner.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('simulates without the ABI too, passing the value and proof first', async () => {
+    const runner = createRunner({ callError: revertError('Value too large') });
+    // Without the JSON ABI, internal types are unknown
+    const ethersContract = new ethers.Contract(
+      CONTRACT_ADDRESS,
+      ['function setValue(bytes32 value, bytes inputProof, string note)'],
+      runner as unknown as ethers.ContractRunner
+    );
+    const contract = new FhevmContract(ethersContract, CONTRACT_ADDRESS);
+
+    await expect(contract.encryptAndCall('setValue', encrypted, 'note')).rejects.toBeInstanceOf(TransactionRevertedError);
+    const [tx] = runner.call.mock.calls[0] as unknown as [ethers.TransactionRequest];
+    expect(Array.from(ethersContract.interface.decodeFunctionData('setValue', tx.data!))).toEqual([HANDLE, PROOF, 'note']);
+    expect(runner.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('places the value and proof at their ABI positions and sends after a passing simulation', async () => {
+    const runner = createRunner();
+
+    await createContract(runner).encryptAndCall('createBusinessData', encrypted, 'doc-1', 'Title', 1, 0, 'Body');
+
+    expect(runner.call).toHaveBeenCalledTimes(1);
+    const [tx] = runner.sendTransaction.mock.calls[0];
+    const args = ethers.Interface.from(ABI).decodeFunctionData('createBusinessData', tx.data!);
+    expect(Array.from(args)).toEqual(['doc-1', 'Title', HANDLE, PROOF, 1n, 0n, 'Body']);
+  });
+
+  it('skips the simulation with simulate: false and keeps the other overrides', async () => {
+    const runner = createRunner({ callError: revertError('Business data already exists') });
+
+    await createContract(runner).encryptAndCall('createBusinessData', encrypted, 'doc-1', 'Title', 1, 0, 'Body', {
+      simulate: false,
+      gasLimit: 500000,
+    });
+
+    expect(runner.call).not.toHaveBeenCalled();
+    expect(runner.sendTransaction.mock.calls[0][0]).toMatchObject({ gasLimit: 500000n });
+    expect(runner.sendTransaction.mock.calls[0][0]).not.toHaveProperty('simulate');
+  });
+});
+
+const handle = (byte: string, typeId: string) => `0x${byte.repeat(30)}${typeId}00`;
+
+/** Mixed encrypted inputs and struct outputs, as the compiler writes them to the JSON ABI */
+const STRUCT_ABI: ethers.JsonFragment[] = [
+  {
+    type: 'function',
+    name: 'store',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'flag', type: 'bytes32', internalType: 'externalEbool' },
+      { name: 'count', type: 'uint256', internalType: 'uint256' },
+      { name: 'metadata', type: 'bytes', internalType: 'bytes' },
+      { name: 'owner', type: 'bytes32', internalType: 'externalEaddress' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'noProof',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'amount', type: 'bytes32', internalType: 'externalEuint64' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'getDocument',
+    stateMutability: 'view',
+    inputs: [{ name: 'id', type: 'string', internalType: 'string' }],
+    outputs: [{
+      name: 'document',
+      type: 'tuple',
+      internalType: 'struct Document',
+      components: [
+        { name: 'title', type: 'string', internalType: 'string' },
+        { name: 'content', type: 'bytes32', internalType: 'euint32' },
+        { name: 'flags', type: 'bytes32[]', internalType: 'ebool[]' },
+        { name: 'editor', type: 'bytes32', internalType: 'eaddress' },
+      ],
+    }],
+  },
+];
+
+function createDecryptingClient(outcomes: Record<string, DecryptionOutcome> = {}) {
+  return { batchDecryptValues: vi.fn(async (_handles: string[], _contractAddress: string, _signer?: unknown, _options?: unknown) => outcomes) };
+}
+
+function viewResult(abi: ethers.JsonFragment[], functionName: string, values: any[]) {
+  return ethers.Interface.from(abi).encodeFunctionResult(functionName, values);
+}
+
+describe('FhevmContract.describeFunction', () => {
+  it('finds the encrypted parameter and the input proof in the artifact ABI', () => {
+    const { encrypted, proofIndex } = createContract(createRunner()).describeFunction('createBusinessData');
+
+    expect(encrypted).toEqual([{ index: 2, name: 'encryptedValue', type: 'euint32' }]);
+    expect(proofIndex).toBe(3);
+  });
+
+  it('maps every external type and prefers the bytes parameter named like a proof', () => {
+    const { encrypted, proofIndex } = createContract(createRunner(), STRUCT_ABI).describeFunction('store');
+
+    expect(encrypted).toEqual([
+      { index: 0, name: 'flag', type: 'ebool' },
+      { index: 3, name: 'owner', type: 'eaddress' },
+    ]);
+    expect(proofIndex).toBe(4);
+  });
+
+  it('sees no encrypted parameters without the JSON ABI', () => {
+    expect(createContract(createRunner(), null).describeFunction('createBusinessData')).toMatchObject({ encrypted: [], proofIndex: null });
+  });
+
+  it('rejects encrypted parameters without an input proof and unknown functions', () => {
+    const contract = createContract(createRunner(), STRUCT_ABI);
+
+    expect(() => contract.describeFunction('noProof')).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    expect(() => contract.describeFunction('missing')).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+  });
+});
+
+describe('FhevmContract.encryptArgs', () => {
+  function createEncryptingClient() {
+    const added: Array<[string, unknown]> = [];
+    const builder = {
+      add: vi.fn((type: string, value: unknown) => {
+        added.push([type, value]);
+        return builder;
+      }),
+      encrypt: vi.fn(async () => ({
+        handles: added.map((_, index) => ({ handle: handle(String(index + 1).padStart(2, '0'), '04') })),
+        inputProof: PROOF,
+      })),
+    };
+    return { added, client: { createInput: vi.fn(() => builder) } };
+  }
+
+  it('encrypts the values at the external positions and inserts the proof', async () => {
+    const { added, client } = createEncryptingClient();
+    const contract = createContract(createRunner(), STRUCT_ABI, client as unknown as Partial<FhevmClient>);
+
+    const args = await contract.encryptArgs('store', [true, 5n, '0xbeef', USER]);
+
+    expect(added).toEqual([['ebool', true], ['eaddress', USER]]);
+    expect(client.createInput).toHaveBeenCalledWith(CONTRACT_ADDRESS, USER);
+    expect(args).toEqual([handle('01', '04'), 5n, '0xbeef', handle('02', '04'), PROOF]);
+  });
+
+  it('encrypts for userAddress instead of the runner when given', async () => {
+    const { client } = createEncryptingClient();
+    const contract = createContract(createRunner(), ABI, client as unknown as Partial<FhevmClient>);
+    const other = '0x2222222222222222222222222222222222222222';
+
+    const args = await contract.encryptArgs('createBusinessData', ['doc-1', 'Title', 42, 1, 0, 'Body'], { userAddress: other });
+
+    expect(client.createInput).toHaveBeenCalledWith(CONTRACT_ADDRESS, other);
+    expect(args).toEqual(['doc-1', 'Title', handle('01', '04'), PROOF, 1, 0, 'Body']);
+  });
+
+  it('rejects a wrong number of arguments', async () => {
+    const { client } = createEncryptingClient();
+    const contract = createContract(createRunner(), ABI, client as unknown as Partial<FhevmClient>);
+
+    await expect(contract.encryptArgs('createBusinessData', ['doc-1', 42])).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    expect(client.createInput).not.toHaveBeenCalled();
+  });
+});
+
+describe('FhevmContract.readDecrypted', () => {
+  const VALUE = handle('aa', '04');
+  const FLAG = handle('bb', '00');
+  const EDITOR = handle('cc', '07');
+
+  it('returns a single decrypted output as is', async () => {
+    const client = createDecryptingClient({ [VALUE]: { status: 'decrypted', value: { type: 'euint32', value: 42n } } });
+    const runner = createRunner({ callResult: viewResult(ABI, 'getEncryptedValue', [VALUE]) });
+
+    const value = await createContract(runner, ABI, client).readDecrypted('getEncryptedValue', ['doc-1']);
+
+    expect(value).toBe(42n);
+    expect(client.batchDecryptValues).toHaveBeenCalledWith([VALUE], CONTRACT_ADDRESS, undefined, {});
+  });
+
+  it('reads uninitialized values as the default of their type without decrypting', async () => {
+    const client = createDecryptingClient();
+    const runner = createRunner({ callResult: viewResult(ABI, 'getEncryptedValue', [ethers.ZeroHash]) });
+
+    expect(await createContract(runner, ABI, client).readDecrypted('getEncryptedValue', ['doc-1'])).toBe(0n);
+    expect(client.batchDecryptValues).not.toHaveBeenCalled();
+  });
+
+  it('returns several outputs as an object keyed by name', async () => {
+    const client = createDecryptingClient({ [VALUE]: { status: 'decrypted', value: { type: 'euint32', value: 7n } } });
+    const runner = createRunner({
+      callResult: viewResult(ABI, 'businessData', ['Acme', VALUE, 1n, 2n, 'Body', USER, 3n, 0n, false]),
+    });
+
+    const data = await createContract(runner, ABI, client).readDecrypted('businessData', ['doc-1']);
+
+    expect(data).toMatchObject({ name: 'Acme', encryptedValue: 7n, publicValue1: 1n, creator: USER, isVerified: false });
+  });
+
+  it('decrypts inside structs and arrays in one batch, with zero handles as false and the zero address', async () => {
+    const client = createDecryptingClient({
+      [VALUE]: { status: 'decrypted', value: { type: 'euint32', value: 42n } },
+      [FLAG]: { status: 'decrypted', value: { type: 'ebool', value: true } },
+    });
+    const runner = createRunner({
+      callResult: viewResult(STRUCT_ABI, 'getDocument', [['Notes', VALUE, [FLAG, ethers.ZeroHash, FLAG], ethers.ZeroHash]]),
+    });
+
+    const document = await createContract(runner, STRUCT_ABI, client).readDecrypted('getDocument', ['doc-1']);
+
+    expect(document).toEqual({ title: 'Notes', content: 42n, flags: [true, false, true], editor: ethers.ZeroAddress });
+    expect(client.batchDecryptValues).toHaveBeenCalledTimes(1);
+    expect(client.batchDecryptValues.mock.calls[0][0]).toEqual([VALUE, FLAG]);
+  });
+
+  it('keeps handles with read', async () => {
+    const runner = createRunner({
+      callResult: viewResult(STRUCT_ABI, 'getDocument', [['Notes', VALUE, [FLAG], EDITOR]]),
+    });
+
+    const document = await createContract(runner, STRUCT_ABI, createDecryptingClient()).read('getDocument', ['doc-1']);
+
+    expect(document).toEqual({ title: 'Notes', content: VALUE, flags: [FLAG], editor: EDITOR });
+  });
+
+  it('throws AclDeniedError when a handle is denied', async () => {
+    const client = createDecryptingClient({
+      [VALUE]: { status: 'denied', handle: VALUE, reason: 'USER_NOT_ALLOWED', message: 'Not allowed to decrypt' },
+    });
+    const runner = createRunner({ callResult: viewResult(ABI, 'getEncryptedValue', [VALUE]) });
+
+    await expect(createContract(runner, ABI, client).readDecrypted('getEncryptedValue', ['doc-1'])).rejects.toBeInstanceOf(AclDeniedError);
+  });
+});
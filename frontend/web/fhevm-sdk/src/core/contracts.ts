@@ -4,30 +4,388 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { FhevmClient, getDefaultClient } from './fhevm.js';
+import { FheInputValue } from './encryption.js';
+import { FheType, FHE_TYPE_IDS } from './fheTypes.js';
+import { AclDeniedError, TransactionRevertedError, ValidationError, WalletError, toFhevmError } from './errors.js';
+import { FhevmCallOptions, withAbort } from './abort.js';
+import { isZeroHandle } from './handles.js';
+import { defaultClearValue, mapComponents } from './abiValues.js';
+import { DecodedRevert, decodeRevert } from './reverts.js';
+import { trackTransaction } from './transactions.js';
+import { ContractEventListener, ContractEventOptions, ContractEventSubscription, ContractEventWatcher } from './contractEvents.js';
+
+/**
+ * Solidity `externalEuint32`, `externalEbool`, ... parameter types and the FHE type they carry
+ */
+const EXTERNAL_FHE_TYPES: Record<string, FheType> = Object.fromEntries(
+  (Object.keys(FHE_TYPE_IDS) as FheType[]).map(type => [`external${type[0].toUpperCase()}${type.slice(1)}`, type])
+);
+
+export interface ReadDecryptedOptions extends FhevmCallOptions {
+  /** Signer authorizing the user decryption, defaults to the contract runner or the client's signer */
+  signer?: any;
+  /** ethers overrides for the view call (blockTag, from...) */
+  overrides?: ethers.Overrides;
+}
+
+export interface EncryptedParam {
+  /** Position in the function's inputs */
+  index: number;
+  name: string;
+  type: FheType;
+}
+
+export interface EncryptedFunctionInfo {
+  fragment: ethers.FunctionFragment;
+  /** external* parameters, in input order */
+  encrypted: EncryptedParam[];
+  /** Position of the `bytes` input proof parameter, null without encrypted parameters */
+  proofIndex: number | null;
+}
+
+export interface SendOptions extends FhevmCallOptions {
+  /** ethers overrides (gasLimit, value, nonce...) */
+  overrides?: ethers.Overrides;
+  /** Run staticCall and estimateGas before broadcasting, defaults to true */
+  simulate?: boolean;
+}
+
+/**
+ * Trailing argument of `encryptAndCall` - ethers overrides, plus `simulate: false` to skip the simulation
+ */
+export type EncryptAndCallOverrides = ethers.Overrides & { simulate?: boolean };
+
+export interface EncryptedCallOptions extends SendOptions {
+  /** Account the input is encrypted for, defaults to the contract runner's address */
+  userAddress?: string;
+}
+
+/**
+ * Outcome of a simulated call - `args` are the full call arguments, ready for `send`
+ */
+export type SimulationResult =
+  | { ok: true; args: any[]; result: any; gasEstimate: bigint }
+  | { ok: false; args: any[]; revert: DecodedRevert; error: TransactionRevertedError };
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
+  private client?: FhevmClient;
+  private abi?: ReadonlyArray<ethers.JsonFragment>;
 
-  constructor(contract: ethers.Contract, address: string) {
+  /**
+   * @param abi JSON ABI with `internalType` (e.g. the Hardhat artifact's `abi`) - ethers drops
+   *   internal types, so encrypted parameters can only be detected from the original ABI
+   */
+  constructor(contract: ethers.Contract, address: string, client?: FhevmClient, abi?: ReadonlyArray<ethers.JsonFragment>) {
     this.contract = contract;
     this.address = address;
+    this.client = client;
+    this.abi = abi;
+  }
+
+  private getClient() {
+    return this.client ?? getDefaultClient();
+  }
+
+  /**
+   * Locate the external* parameters and the input proof of a contract function
+   */
+  describeFunction(functionName: string): EncryptedFunctionInfo {
+    const fragment = this.contract.interface.getFunction(functionName);
+    if (!fragment) {
+      throw new ValidationError('INVALID_INPUT', `Function ${functionName} not found in the contract ABI`);
+    }
+
+    const raw = this.findRawFunction(fragment);
+
+    const encrypted: EncryptedParam[] = [];
+    fragment.inputs.forEach((param, index) => {
+      const internalType = raw?.inputs?.[index]?.internalType;
+      const type = param.type === 'bytes32' && internalType ? EXTERNAL_FHE_TYPES[internalType] : undefined;
+      if (type) encrypted.push({ index, name: param.name, type });
+    });
+    if (encrypted.length === 0) {
+      return { fragment, encrypted, proofIndex: null };
+    }
+
+    // The proof is the `bytes` parameter after the first encrypted one, preferably named like one
+    const proofCandidates = fragment.inputs
+      .map((param, index) => ({ param, index }))
+      .filter(({ param, index }) => param.type === 'bytes' && index > encrypted[0].index);
+    const proof = proofCandidates.find(({ param }) => /proof/i.test(param.name)) ?? proofCandidates[0];
+    if (!proof) {
+      throw new ValidationError('INVALID_INPUT', `Function ${fragment.format()} has encrypted parameters but no bytes input proof parameter`);
+    }
+    return { fragment, encrypted, proofIndex: proof.index };
+  }
+
+  /**
+   * The JSON ABI entry of a function, which still carries the parameters' internal types
+   */
+  private findRawFunction(fragment: ethers.FunctionFragment): ethers.JsonFragment | undefined {
+    return this.abi?.find(item =>
+      item.type === 'function' &&
+      item.name === fragment.name &&
+      item.inputs?.length === fragment.inputs.length &&
+      item.inputs.every((input, index) => input.type === fragment.inputs[index].type)
+    );
+  }
+
+  private async getRunnerAddress(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      throw new WalletError('WALLET_MISSING', 'The contract is not connected to a signer. Pass userAddress or connect a signer.');
+    }
+    return runner.getAddress();
+  }
+
+  /**
+   * Encrypt the plain values at the function's external* positions in one input
+   * and return the full argument list, input proof included
+   *
+   * `args` are the function's arguments without the input proof, with plain JS values
+   * (number, bigint, boolean, address) in the encrypted positions.
+   */
+  async encryptArgs(functionName: string, args: any[], options: EncryptedCallOptions = {}): Promise<any[]> {
+    const { fragment, encrypted, proofIndex } = this.describeFunction(functionName);
+    if (encrypted.length === 0 || proofIndex === null) {
+      if (!this.abi) {
+        throw new ValidationError('INVALID_INPUT', 'Encrypted parameters are detected from the JSON ABI. Pass the ABI to the FhevmContract constructor.');
+      }
+      return args;
+    }
+
+    const expected = fragment.inputs.length - 1;
+    if (args.length !== expected) {
+      throw new ValidationError('INVALID_INPUT', `${fragment.format()} expects ${expected} arguments without the input proof, got ${args.length}`);
+    }
+
+    // Arguments skip the proof position
+    const argAt = (index: number) => args[index < proofIndex ? index : index - 1];
+
+    const userAddress = options.userAddress ?? await this.getRunnerAddress();
+    const input = this.createInput(userAddress);
+    for (const param of encrypted) {
+      input.add(param.type, argAt(param.index));
+    }
+    const { handles, inputProof } = await input.encrypt(options);
+
+    return fragment.inputs.map((_, index) => {
+      if (index === proofIndex) return inputProof;
+      const position = encrypted.findIndex(param => param.index === index);
+      return position >= 0 ? handles[position].handle : argAt(index);
+    });
+  }
+
+  /**
+   * Run a call with staticCall and estimateGas without broadcasting it
+   *
+   * Reverts are returned as a decoded result; network and RPC failures are thrown.
+   */
+  async simulate(
+    functionName: string,
+    callArgs: any[],
+    { overrides, signal }: Omit<SendOptions, 'simulate'> = {}
+  ): Promise<SimulationResult> {
+    const method = this.contract.getFunction(functionName);
+    const fullArgs = [...callArgs, ...(overrides ? [overrides] : [])];
+
+    try {
+      const result = await withAbort(method.staticCall(...fullArgs), signal);
+      const gasEstimate = await withAbort(method.estimateGas(...fullArgs), signal);
+      return { ok: true, args: callArgs, result, gasEstimate };
+    } catch (error) {
+      const revert = decodeRevert(error, this.contract.interface);
+      if (!revert) throw toFhevmError(error, 'TRANSACTION_FAILED');
+      return { ok: false, args: callArgs, revert, error: new TransactionRevertedError(revert, error) };
+    }
+  }
+
+  /**
+   * Encrypt the arguments and simulate the call, so the UI can validate input before asking for a signature
+   *
+   * const check = await contract.dryRun('createBusinessData', [id, name, 42, 100, 200, description])
+   * if (!check.ok) showError(check.revert.message)
+   * else await contract.send('createBusinessData', check.args, { simulate: false })
+   */
+  async dryRun(functionName: string, args: any[], options: EncryptedCallOptions = {}): Promise<SimulationResult> {
+    const callArgs = await this.encryptArgs(functionName, args, options);
+    return this.simulate(functionName, callArgs, options);
+  }
+
+  /**
+   * Send a transaction with its full arguments, simulating it first unless `simulate` is false
+   */
+  async send(
+    functionName: string,
+    callArgs: any[],
+    { overrides, signal, simulate = true }: SendOptions = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    if (simulate) {
+      const simulation = await this.simulate(functionName, callArgs, { overrides, signal });
+      if (!simulation.ok) throw simulation.error;
+    }
+    return this.contract.getFunction(functionName).send(...callArgs, ...(overrides ? [overrides] : []));
+  }
+
+  /**
+   * Encrypt the plain values of the encrypted parameters and send the transaction
+   *
+   * await contract.callEncrypted('createBusinessData', [id, name, 42, publicValue1, publicValue2, description])
+   */
+  async callEncrypted(
+    functionName: string,
+    args: any[],
+    options: EncryptedCallOptions = {}
+  ): Promise<ethers.ContractTransactionResponse> {
+    const callArgs = await this.encryptArgs(functionName, args, options);
+    return this.send(functionName, callArgs, options);
+  }
+
+  async callEncryptedAndWait(
+    functionName: string,
+    args: any[],
+    options: EncryptedCallOptions = {}
+  ): Promise<ethers.TransactionReceipt> {
+    const tx = await this.callEncrypted(functionName, args, options);
+    return trackTransaction(tx, { label: functionName, iface: this.contract.interface }).wait();
+  }
+
+  /**
+   * Call a view function and shape its result like `readDecrypted`, leaving encrypted handles as they are
+   */
+  async read(functionName: string, args: any[] = [], options: ReadDecryptedOptions = {}): Promise<any> {
+    const { fragment, raw, result } = await this.callView(functionName, args, options);
+    return this.shapeOutputs(fragment, mapComponents(Array.from(result), fragment.outputs, raw.outputs, handle => handle));
+  }
+
+  /**
+   * Call a view function and user-decrypt every euint/ebool/eaddress it returns, in one batch
+   *
+   * Encrypted handles are replaced by their cleartext (bigint, boolean or address), including
+   * inside structs and arrays. A single output is returned as is, several outputs as an object
+   * keyed by name. Uninitialized values read as 0, false or the zero address.
+   *
+   * const content = await contract.readDecrypted('getDocumentContent', [documentId])
+   */
+  async readDecrypted(functionName: string, args: any[] = [], options: ReadDecryptedOptions = {}): Promise<any> {
+    const { fragment, raw, result } = await this.callView(functionName, args, options);
+
+    // Collect the handles, then decrypt them with a single authorization
+    const handles = new Set<string>();
+    mapComponents(Array.from(result), fragment.outputs, raw.outputs, handle => {
+      if (!isZeroHandle(handle)) handles.add(handle);
+    });
+
+    const runner = this.contract.runner as any;
+    const signer = options.signer ?? (typeof runner?.signTypedData === 'function' ? runner : undefined);
+    const outcomes = handles.size > 0
+      ? await this.getClient().batchDecryptValues(Array.from(handles), this.address, signer, options)
+      : {};
+
+    const denied = Object.values(outcomes).filter(outcome => outcome.status === 'denied');
+    if (denied.length > 0) {
+      throw new AclDeniedError(denied.map(outcome => (outcome as { message: string }).message).join('; '));
+    }
+
+    const decoded = mapComponents(Array.from(result), fragment.outputs, raw.outputs, (handle, type) => {
+      const outcome = outcomes[handle];
+      return outcome?.status === 'decrypted' ? outcome.value.value : defaultClearValue(type);
+    });
+    return this.shapeOutputs(fragment, decoded);
+  }
+
+  private async callView(functionName: string, args: any[], options: ReadDecryptedOptions) {
+    const fragment = this.contract.interface.getFunction(functionName);
+    if (!fragment) {
+      throw new ValidationError('INVALID_INPUT', `Function ${functionName} not found in the contract ABI`);
+    }
+    const raw = this.findRawFunction(fragment);
+    if (!raw) {
+      throw new ValidationError('INVALID_INPUT', 'Encrypted outputs are detected from the JSON ABI. Pass the ABI to the FhevmContract constructor.');
+    }
+
+    const result = await withAbort(
+      this.contract.getFunction(fragment.format()).staticCallResult(...args, ...(options.overrides ? [options.overrides] : [])),
+      options.signal
+    );
+    return { fragment, raw, result };
+  }
+
+  /**
+   * A single output is returned as is, several as an object (named outputs) or an array
+   */
+  private shapeOutputs(fragment: ethers.FunctionFragment, outputs: any) {
+    if (fragment.outputs.length !== 1) return outputs;
+    return Array.isArray(outputs) ? outputs[0] : Object.values(outputs)[0];
+  }
+
+  /**
+   * Subscribe to contract events - backfills from `fromBlock`, then follows new blocks
+   * (pushed by websocket providers, polled otherwise)
+   *
+   * With `decrypt`, euint/ebool/eaddress event fields are user-decrypted in one batch per poll.
+   * Events dropped by a reorg are delivered again with `removed: true`.
+   *
+   * const { unsubscribe } = contract.subscribe(['BusinessDataCreated'], event => refresh(), { fromBlock })
+   */
+  subscribe(eventNames: string[], listener: ContractEventListener, options: ContractEventOptions = {}): ContractEventSubscription {
+    const runner = this.contract.runner as any;
+    const defaultSigner = typeof runner?.signTypedData === 'function' ? runner : undefined;
+    const watcher = new ContractEventWatcher(
+      this.contract,
+      eventNames,
+      listener,
+      (handles, signer) => this.getClient().batchDecryptValues(handles, this.address, signer ?? defaultSigner, { signal: options.signal }),
+      this.abi,
+      options
+    );
+    return watcher.start();
   }
 
   /**
    * Encrypt and call contract function
+   *
+   * With the JSON ABI, the encrypted value and proof go to the function's external*
+   * and proof positions; otherwise they are passed as the first two arguments.
+   * The call is simulated first and throws TransactionRevertedError if it would revert;
+   * pass `{ simulate: false }` (with any ethers overrides) after the arguments to skip that.
+   *
+   * await contract.encryptAndCall('createBusinessData', encrypted, id, name, 100, 200, description, { simulate: false })
    */
   async encryptAndCall(
     functionName: string,
     encryptedParams: any,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    const { fragment, encrypted, proofIndex } = this.describeFunction(functionName);
+
+    let args: any[];
+    let extra: any[];
+    if (encrypted.length !== 1 || proofIndex === null) {
+      const all = [encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams];
+      args = all.slice(0, fragment.inputs.length);
+      extra = all.slice(fragment.inputs.length);
+    } else {
+      const rest = [...additionalParams];
+      args = fragment.inputs.map((_, index) => {
+        if (index === encrypted[0].index) return encryptedParams.encryptedData;
+        if (index === proofIndex) return encryptedParams.proof;
+        return rest.shift();
+      });
+      extra = rest;
+    }
+
+    // Anything past the function's inputs is ethers overrides
+    if (extra.length === 0) return this.send(functionName, args);
+    const { simulate, ...overrides } = extra[0] as EncryptAndCallOverrides;
+    return this.send(functionName, args, { overrides, simulate });
   }
 
   /**
-   * Encrypt and call with wait
+   * Encrypt and call with wait - rejects with TransactionRevertedError when the transaction reverts
    */
   async encryptAndCallAndWait(
     functionName: string,
@@ -35,18 +393,21 @@ export class FhevmContract {
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
-    if (!receipt) {
-      throw new Error("Transaction receipt is null");
-    }
-    return receipt;
+    return trackTransaction(tx, { label: functionName, iface: this.contract.interface }).wait();
   }
 
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async createEncryptedInput(userAddress: string, value: FheInputValue, type: FheType = 'euint32', options?: FhevmCallOptions) {
+    return this.getClient().createEncryptedInput(this.address, userAddress, value, type, options);
+  }
+
+  /**
+   * Start a typed encrypted input bound to this contract
+   */
+  createInput(userAddress: string) {
+    return this.getClient().createInput(this.address, userAddress);
   }
 }
 
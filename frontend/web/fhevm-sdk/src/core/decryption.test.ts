@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  DecryptedValue,
+  MAX_DECRYPT_BITS,
+  abiEncodeClearValues,
+  decryptedToNumber,
+  findClearValue,
+  splitDecryptionBatches,
+  toDecryptedValue,
+} from './decryption.js';
+import { FHE_TYPE_IDS, FheType } from './fheTypes.js';
+
+let handleCount = 0;
+
+function makeHandle(type: FheType) {
+  handleCount++;
+  return ethers.hexlify(ethers.concat([
+    ethers.zeroPadValue(ethers.toBeHex(handleCount), 21),
+    new Uint8Array([0xff]),
+    ethers.toBeHex(11155111, 8),
+    new Uint8Array([FHE_TYPE_IDS[type], 0]),
+  ]));
+}
+
+const CONTRACT_A = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const CONTRACT_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+describe('splitDecryptionBatches', () => {
+  it('keeps small requests in one batch', () => {
+    const pairs = [
+      { handle: makeHandle('euint32'), contractAddress: CONTRACT_A },
+      { handle: makeHandle('ebool'), contractAddress: CONTRACT_B },
+    ];
+
+    expect(splitDecryptionBatches(pairs)).toEqual([pairs]);
+  });
+
+  it('splits at the bit limit, keeping the order', () => {
+    const pairs = Array.from({ length: 9 }, () => ({ handle: makeHandle('euint256'), contractAddress: CONTRACT_A }));
+
+    const batches = splitDecryptionBatches(pairs);
+
+    expect(batches.map(batch => batch.length)).toEqual([MAX_DECRYPT_BITS / 256, 1]);
+    expect(batches.flat()).toEqual(pairs);
+  });
+
+  it('starts a new batch when the next handle does not fit', () => {
+    const pairs = [
+      { handle: makeHandle('euint128'), contractAddress: CONTRACT_A },
+      { handle: makeHandle('eaddress'), contractAddress: CONTRACT_A },
+      { handle: makeHandle('euint64'), contractAddress: CONTRACT_A },
+    ];
+
+    expect(splitDecryptionBatches(pairs, 256).map(batch => batch.length)).toEqual([1, 2]);
+  });
+
+  it('drops duplicate handles regardless of casing', () => {
+    const handle = makeHandle('euint8');
+    const pairs = [
+      { handle, contractAddress: CONTRACT_A },
+      { handle: handle.toUpperCase().replace('0X', '0x'), contractAddress: CONTRACT_A },
+    ];
+
+    expect(splitDecryptionBatches(pairs)).toEqual([[pairs[0]]]);
+  });
+
+  it('gives a handle larger than the limit its own batch', () => {
+    const pairs = [
+      { handle: makeHandle('euint8'), contractAddress: CONTRACT_A },
+      { handle: makeHandle('euint256'), contractAddress: CONTRACT_A },
+    ];
+
+    expect(splitDecryptionBatches(pairs, 128)).toEqual([[pairs[0]], [pairs[1]]]);
+  });
+
+  it('returns no batches for no handles', () => {
+    expect(splitDecryptionBatches([])).toEqual([]);
+  });
+});
+
+describe('toDecryptedValue', () => {
+  it('keeps integers lossless as bigint', () => {
+    const large = 2n ** 200n + 1n;
+
+    expect(toDecryptedValue(makeHandle('euint256'), large)).toEqual({ type: 'euint256', value: large });
+    expect(toDecryptedValue(makeHandle('euint64'), '18446744073709551615')).toEqual({ type: 'euint64', value: 18446744073709551615n });
+    expect(toDecryptedValue(makeHandle('euint8'), 7)).toEqual({ type: 'euint8', value: 7n });
+  });
+
+  it('types ebool results as booleans', () => {
+    expect(toDecryptedValue(makeHandle('ebool'), true)).toEqual({ type: 'ebool', value: true });
+    expect(toDecryptedValue(makeHandle('ebool'), 1n)).toEqual({ type: 'ebool', value: true });
+    expect(toDecryptedValue(makeHandle('ebool'), 0n)).toEqual({ type: 'ebool', value: false });
+  });
+
+  it('types eaddress results as checksummed addresses', () => {
+    const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+    expect(toDecryptedValue(makeHandle('eaddress'), address.toLowerCase())).toEqual({ type: 'eaddress', value: address });
+    expect(toDecryptedValue(makeHandle('eaddress'), BigInt(address))).toEqual({ type: 'eaddress', value: address });
+    expect(toDecryptedValue(makeHandle('eaddress'), 1n).value).toBe('0x0000000000000000000000000000000000000001');
+  });
+
+  it('rejects missing clear values', () => {
+    expect(() => toDecryptedValue(makeHandle('euint32'), undefined)).toThrow(expect.objectContaining({ code: 'PROOF_INVALID' }));
+  });
+});
+
+describe('decryptedToNumber', () => {
+  it('narrows safe integers', () => {
+    expect(decryptedToNumber({ type: 'euint32', value: 42n })).toBe(42);
+  });
+
+  it('rejects unsafe integers and non-integer types', () => {
+    expect(() => decryptedToNumber({ type: 'euint64', value: 2n ** 60n })).toThrow(expect.objectContaining({ code: 'INVALID_INPUT', name: 'ValidationError' }));
+    expect(() => decryptedToNumber({ type: 'ebool', value: true })).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+  });
+});
+
+describe('abiEncodeClearValues', () => {
+  it('encodes values in handle order with their Solidity types', () => {
+    const flag = makeHandle('ebool');
+    const amount = makeHandle('euint64');
+    const owner = makeHandle('eaddress');
+    const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+    const values: Record<string, DecryptedValue> = {
+      [flag]: { type: 'ebool', value: true },
+      [amount]: { type: 'euint64', value: 2n ** 63n },
+      [owner]: { type: 'eaddress', value: address },
+    };
+
+    const encoded = abiEncodeClearValues([amount, owner, flag], values);
+
+    expect(encoded).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['uint64', 'address', 'bool'], [2n ** 63n, address, true]));
+  });
+
+  it('rejects values out of range for their type', () => {
+    const handle = makeHandle('euint8');
+
+    expect(() => abiEncodeClearValues([handle], { [handle]: { type: 'euint8', value: 256n } })).toThrow();
+  });
+});
+
+describe('findClearValue', () => {
+  it('matches handles regardless of casing', () => {
+    const handle = makeHandle('euint32');
+    const upper = handle.toUpperCase().replace('0X', '0x');
+
+    expect(findClearValue({ [upper]: 5n }, handle)).toBe(5n);
+    expect(findClearValue({}, handle)).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * FHEVM Decryption Helpers - Universal SDK
+ * Typed decryption results and relayer request batching
+ */
+
+import { ethers } from 'ethers';
+import { FheType, FHE_TYPE_BITS, getHandleType } from './fheTypes.js';
+import { RelayerError, ValidationError } from './errors.js';
+import type { AclDenial } from './acl.js';
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Relayer limit on encrypted bits per decryption request
+ */
+export const MAX_DECRYPT_BITS = 2048;
+
+/**
+ * Split handle/contract pairs into requests of at most `maxBits` encrypted bits,
+ * keeping the original order and dropping duplicate handles
+ */
+export function splitDecryptionBatches(
+  pairs: HandleContractPair[],
+  maxBits = MAX_DECRYPT_BITS
+): HandleContractPair[][] {
+  const batches: HandleContractPair[][] = [];
+  const seen = new Set<string>();
+  let current: HandleContractPair[] = [];
+  let currentBits = 0;
+
+  for (const pair of pairs) {
+    const key = pair.handle.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const bits = FHE_TYPE_BITS[getHandleType(pair.handle)];
+    if (current.length > 0 && currentBits + bits > maxBits) {
+      batches.push(current);
+      current = [];
+      currentBits = 0;
+    }
+    current.push(pair);
+    currentBits += bits;
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+export type DecryptedValue =
+  | { type: 'ebool'; value: boolean }
+  | { type: 'eaddress'; value: string }
+  | { type: Exclude<FheType, 'ebool' | 'eaddress'>; value: bigint };
+
+/**
+ * Per-handle result of a batch decryption - handles the ACL denies are reported instead of failing the batch
+ */
+export type DecryptionOutcome =
+  | { status: 'decrypted'; value: DecryptedValue }
+  | ({ status: 'denied' } & AclDenial);
+
+/**
+ * Convert a raw relayer clear value into a result typed by the handle's FHE type
+ */
+export function toDecryptedValue(handle: string, clearValue: unknown): DecryptedValue {
+  if (clearValue === undefined || clearValue === null) {
+    throw new RelayerError('PROOF_INVALID', `No clear value returned for handle ${handle}`);
+  }
+  const type = getHandleType(handle);
+
+  if (type === 'ebool') {
+    return { type, value: typeof clearValue === 'boolean' ? clearValue : BigInt(clearValue as any) === 1n };
+  }
+  if (type === 'eaddress') {
+    const address = typeof clearValue === 'string' && ethers.isAddress(clearValue)
+      ? clearValue
+      : '0x' + BigInt(clearValue as any).toString(16).padStart(40, '0');
+    return { type, value: ethers.getAddress(address) };
+  }
+  return { type, value: BigInt(clearValue as any) };
+}
+
+/**
+ * Narrow an unsigned integer result to a JS number
+ *
+ * Throws for ebool/eaddress results and for values above Number.MAX_SAFE_INTEGER.
+ */
+export function decryptedToNumber(result: DecryptedValue): number {
+  if (result.type === 'ebool' || result.type === 'eaddress') {
+    throw new ValidationError('INVALID_INPUT', `Cannot convert ${result.type} decryption result to a number`);
+  }
+  if (result.value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new ValidationError('INVALID_INPUT', `Decrypted ${result.type} value ${result.value} does not fit in a JS number`);
+  }
+  return Number(result.value);
+}
+
+export interface PublicDecryptionResult {
+  /** Handles covered by the proof, in order - the requested handles minus the denied ones */
+  handles: string[];
+  /** Handles the ACL does not allow to be publicly decrypted */
+  denied: Record<string, AclDenial>;
+  /** Raw clear values as returned by the relayer */
+  clearValues: Record<string, bigint | boolean | string>;
+  /** Clear values typed by each handle's FHE type */
+  values: Record<string, DecryptedValue>;
+  /** Clear values ABI-encoded in handle order, as expected by FHE.checkSignatures */
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+const SOLIDITY_TYPES: Record<FheType, string> = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  eaddress: 'address',
+  euint256: 'uint256',
+};
+
+/**
+ * Look up a clear value by handle, relayer results may use a different hex casing
+ */
+export function findClearValue(clearValues: Record<string, unknown>, handle: string): unknown {
+  if (handle in clearValues) return clearValues[handle];
+  const key = Object.keys(clearValues).find(candidate => candidate.toLowerCase() === handle.toLowerCase());
+  return key === undefined ? undefined : clearValues[key];
+}
+
+/**
+ * ABI-encode decrypted values in handle order, each with the Solidity type of its FHE type
+ */
+export function abiEncodeClearValues(handles: string[], values: Record<string, DecryptedValue>): string {
+  const types = handles.map(handle => SOLIDITY_TYPES[values[handle].type]);
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, handles.map(handle => values[handle].value));
+}
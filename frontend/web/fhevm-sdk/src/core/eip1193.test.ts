@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createEip1193Bridge } from './eip1193.js';
+
+const wallet = ethers.Wallet.createRandom();
+
+function createProvider() {
+  return {
+    getNetwork: async () => ({ chainId: 11155111n }),
+    call: vi.fn(async () => '0x2a'),
+    send: vi.fn(async (method: string) => (method === 'eth_blockNumber' ? '0x10' : null)),
+  };
+}
+
+function createBridge(signer?: ethers.Signer) {
+  const provider = createProvider();
+  return { provider, bridge: createEip1193Bridge(provider as unknown as ethers.JsonRpcProvider, signer) };
+}
+
+describe('createEip1193Bridge', () => {
+  it('answers the chain id and accounts', async () => {
+    const { bridge } = createBridge(wallet);
+
+    await expect(bridge.request({ method: 'eth_chainId' })).resolves.toBe('0xaa36a7');
+    await expect(bridge.request({ method: 'eth_requestAccounts' })).resolves.toEqual([wallet.address]);
+    await expect(createBridge().bridge.request({ method: 'eth_accounts' })).resolves.toEqual([]);
+  });
+
+  it('signs a hex personal_sign payload as raw bytes', async () => {
+    const { bridge } = createBridge(wallet);
+    const payload = '0xdeadbeef';
+
+    const signature = await bridge.request({ method: 'personal_sign', params: [payload, wallet.address] });
+
+    expect(ethers.verifyMessage(ethers.getBytes(payload), signature)).toBe(wallet.address);
+    expect(ethers.verifyMessage(payload, signature)).not.toBe(wallet.address);
+  });
+
+  it('signs a text personal_sign payload as UTF-8', async () => {
+    const { bridge } = createBridge(wallet);
+    const message = 'Sign in to CollabDoc';
+
+    const signature = await bridge.request({ method: 'personal_sign', params: [message, wallet.address] });
+
+    expect(ethers.verifyMessage(message, signature)).toBe(wallet.address);
+  });
+
+  it('requires a signer to sign', async () => {
+    const { bridge } = createBridge();
+
+    await expect(bridge.request({ method: 'personal_sign', params: ['hello'] })).rejects.toMatchObject({ code: 'WALLET_MISSING' });
+  });
+
+  it('maps the RPC gas field of eth_call to gasLimit', async () => {
+    const { bridge, provider } = createBridge();
+
+    await expect(bridge.request({ method: 'eth_call', params: [{ to: wallet.address, data: '0x', gas: '0x5208' }] })).resolves.toBe('0x2a');
+    expect(provider.call).toHaveBeenCalledWith({ to: wallet.address, data: '0x', gasLimit: '0x5208' });
+  });
+
+  it.each([
+    ['eth_blockNumber', []],
+    ['eth_getBalance', [wallet.address, 'latest']],
+    ['net_version', []],
+  ])('forwards %s to the node', async (method, params) => {
+    const { bridge, provider } = createBridge();
+
+    await bridge.request({ method, params });
+
+    expect(provider.send).toHaveBeenCalledWith(method, params);
+  });
+
+  it('rejects other methods', async () => {
+    const { bridge, provider } = createBridge(wallet);
+
+    await expect(bridge.request({ method: 'wallet_switchEthereumChain', params: [] })).rejects.toMatchObject({ code: 'UNSUPPORTED_OPERATION' });
+    expect(provider.send).not.toHaveBeenCalled();
+  });
+});
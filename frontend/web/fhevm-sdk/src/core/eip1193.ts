@@ -0,0 +1,69 @@
+/**
+ * EIP-1193 Bridge - Universal FHEVM SDK
+ * Exposes an ethers provider (and optional signer) as an EIP-1193 provider for Node.js
+ */
+
+import { ethers } from 'ethers';
+import { RelayerError, WalletError } from './errors.js';
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: any[] }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+/**
+ * Convert an RPC transaction object (hex quantities, `gas`) to an ethers TransactionRequest
+ */
+function toTransactionRequest(tx: any): ethers.TransactionRequest {
+  const { gas, ...rest } = tx ?? {};
+  return gas !== undefined ? { ...rest, gasLimit: gas } : rest;
+}
+
+function requireSigner(signer: ethers.Signer | undefined, method: string): ethers.Signer {
+  if (!signer) {
+    throw new WalletError('WALLET_MISSING', `${method} requires a signer. Pass signer, privateKey or keystore when initializing.`);
+  }
+  return signer;
+}
+
+export function createEip1193Bridge(provider: ethers.JsonRpcProvider, signer?: ethers.Signer): Eip1193Provider {
+  return {
+    request: async ({ method, params = [] }) => {
+      switch (method) {
+        case 'eth_chainId':
+          return ethers.toQuantity((await provider.getNetwork()).chainId);
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_call':
+          return provider.call(toTransactionRequest(params[0]));
+        case 'eth_signTypedData_v4': {
+          const typedData = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1];
+          // ethers derives the domain type itself
+          const { EIP712Domain, ...types } = typedData.types;
+          return requireSigner(signer, method).signTypedData(typedData.domain, types, typedData.message);
+        }
+        case 'personal_sign':
+          // Hex payloads are raw bytes, anything else is signed as UTF-8 text
+          return requireSigner(signer, method).signMessage(ethers.isHexString(params[0]) ? ethers.getBytes(params[0]) : params[0]);
+        case 'eth_sendTransaction': {
+          const tx = await requireSigner(signer, method).sendTransaction(toTransactionRequest(params[0]));
+          return tx.hash;
+        }
+        case 'eth_sendRawTransaction': {
+          const tx = await provider.broadcastTransaction(params[0]);
+          return tx.hash;
+        }
+        default:
+          if (method.startsWith('eth_') || method === 'net_version') {
+            // Read-only JSON-RPC methods go straight to the node
+            return provider.send(method, params);
+          }
+          throw new RelayerError('UNSUPPORTED_OPERATION', `Unsupported method: ${method}`);
+      }
+    },
+    on: () => {},
+    removeListener: () => {}
+  };
+}
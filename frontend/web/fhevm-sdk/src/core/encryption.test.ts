@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EncryptedInputBuilder, normalizeInputValue } from './encryption.js';
+import { ValidationError } from './errors.js';
+
+const ADDRESS = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+function createRelayerInput() {
+  return {
+    addBool: vi.fn(),
+    add8: vi.fn(),
+    add16: vi.fn(),
+    add32: vi.fn(),
+    add64: vi.fn(),
+    add128: vi.fn(),
+    add256: vi.fn(),
+    addAddress: vi.fn(),
+    encrypt: vi.fn(async () => ({ handles: [new Uint8Array(32).fill(1), new Uint8Array(32).fill(2)], inputProof: new Uint8Array([0xab, 0xcd]) })),
+  };
+}
+
+describe('normalizeInputValue', () => {
+  it.each([
+    ['euint8', 0, 0n],
+    ['euint8', 255, 255n],
+    ['euint16', 65535n, 65535n],
+    ['euint64', 2n ** 64n - 1n, 2n ** 64n - 1n],
+    ['euint256', 2n ** 256n - 1n, 2n ** 256n - 1n],
+    ['ebool', 1, true],
+    ['ebool', false, false],
+    ['eaddress', ADDRESS.toLowerCase(), ADDRESS],
+  ] as const)('accepts %s %s', (type, value, normalized) => {
+    expect(normalizeInputValue(type, value)).toBe(normalized);
+  });
+
+  it.each([
+    ['euint8', 256, /out of range for euint8 \(0 - 255\)/],
+    ['euint8', -1, /out of range for euint8/],
+    ['euint64', 2n ** 64n, /out of range for euint64 \(0 - 18446744073709551615\)/],
+    ['euint64', 2 ** 64, /Expecting a safe integer/],
+    ['euint32', 1.5, /Expecting a safe integer/],
+    ['euint32', '7', /Expecting a number or bigint/],
+    ['ebool', 2, /Expecting a boolean/],
+    ['eaddress', '0x1234', /Expecting an address/],
+    ['eaddress', ADDRESS.replace('a', 'A'), /Expecting an address/],
+  ] as const)('rejects %s %s', (type, value, message) => {
+    expect(() => normalizeInputValue(type, value)).toThrow(ValidationError);
+    expect(() => normalizeInputValue(type, value)).toThrow(message);
+  });
+});
+
+describe('EncryptedInputBuilder', () => {
+  it('passes normalized values to the matching relayer method', () => {
+    const input = createRelayerInput();
+
+    const builder = new EncryptedInputBuilder(input).uint8(7).uint64(1_000_000n).bool(true).address(ADDRESS.toLowerCase());
+
+    expect(input.add8).toHaveBeenCalledWith(7n);
+    expect(input.add64).toHaveBeenCalledWith(1_000_000n);
+    expect(input.addBool).toHaveBeenCalledWith(true);
+    expect(input.addAddress).toHaveBeenCalledWith(ADDRESS);
+    expect(builder.getTypes()).toEqual(['euint8', 'euint64', 'ebool', 'eaddress']);
+  });
+
+  it('rejects an out-of-range value without adding it', () => {
+    const input = createRelayerInput();
+    const builder = new EncryptedInputBuilder(input).uint8(1);
+
+    expect(() => builder.uint8(300)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    expect(input.add8).toHaveBeenCalledTimes(1);
+    expect(builder.getTypes()).toEqual(['euint8']);
+  });
+
+  it('returns hex handles typed in the order the values were added', async () => {
+    const input = createRelayerInput();
+
+    const result = await new EncryptedInputBuilder(input).uint32(5).bool(false).encrypt({ retry: false });
+
+    expect(result).toEqual({
+      handles: [
+        { handle: `0x${'01'.repeat(32)}`, type: 'euint32' },
+        { handle: `0x${'02'.repeat(32)}`, type: 'ebool' },
+      ],
+      inputProof: '0xabcd',
+    });
+  });
+
+  it('refuses to encrypt an empty input', async () => {
+    const input = createRelayerInput();
+
+    await expect(new EncryptedInputBuilder(input).encrypt()).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    expect(input.encrypt).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * FHEVM Encrypted Input Builder - Universal SDK
+ * Typed, range-checked wrapper around the relayer encrypted input
+ */
+
+import { ethers } from 'ethers';
+import { FheType, FHE_TYPE_BITS } from './fheTypes.js';
+import { ValidationError, toFhevmError } from './errors.js';
+import { FhevmCallOptions } from './abort.js';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry.js';
+import type { FhevmEventEmitter } from './events.js';
+
+export type FheInputValue = boolean | number | bigint | string;
+
+export interface EncryptedHandle {
+  handle: string;
+  type: FheType;
+}
+
+export interface EncryptedInputResult {
+  /** Handles in the order the values were added */
+  handles: EncryptedHandle[];
+  inputProof: string;
+}
+
+/**
+ * Check that a value fits the declared FHE type and normalize it for the relayer
+ */
+export function normalizeInputValue(type: FheType, value: FheInputValue): boolean | bigint | string {
+  if (type === 'ebool') {
+    if (typeof value === 'boolean') return value;
+    if (value === 0 || value === 1 || value === 0n || value === 1n) return Boolean(value);
+    throw new ValidationError('INVALID_INPUT', `Invalid ebool value ${String(value)}. Expecting a boolean.`);
+  }
+
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new ValidationError('INVALID_INPUT', `Invalid eaddress value ${String(value)}. Expecting an address.`);
+    }
+    return ethers.getAddress(value);
+  }
+
+  let bigValue: bigint;
+  if (typeof value === 'bigint') {
+    bigValue = value;
+  } else if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new ValidationError('INVALID_INPUT', `Invalid ${type} value ${value}. Expecting a safe integer, use bigint for large values.`);
+    }
+    bigValue = BigInt(value);
+  } else {
+    throw new ValidationError('INVALID_INPUT', `Invalid ${type} value ${String(value)}. Expecting a number or bigint.`);
+  }
+
+  const max = (1n << BigInt(FHE_TYPE_BITS[type])) - 1n;
+  if (bigValue < 0n || bigValue > max) {
+    throw new ValidationError('INVALID_INPUT', `Value ${bigValue} is out of range for ${type} (0 - ${max})`);
+  }
+  return bigValue;
+}
+
+export interface EncryptedInputBuilderOptions {
+  /** Retry policy of the proof submission */
+  retry?: RetryPolicy | false;
+  /** Receives encryption:* and relayer:error events */
+  events?: FhevmEventEmitter;
+  /** Reported in events */
+  contractAddress?: string;
+  userAddress?: string;
+}
+
+/**
+ * Typed encrypted input - packs several values into one proof
+ *
+ * const { handles, inputProof } = await client.createInput(contract, user)
+ *   .uint64(1_000_000n)
+ *   .bool(true)
+ *   .encrypt();
+ */
+export class EncryptedInputBuilder {
+  private input: any;
+  private types: FheType[] = [];
+  private options: EncryptedInputBuilderOptions;
+
+  constructor(input: any, options: EncryptedInputBuilderOptions = {}) {
+    this.input = input;
+    this.options = options;
+  }
+
+  /**
+   * Add a value of the given FHE type
+   */
+  add(type: FheType, value: FheInputValue): this {
+    const normalized = normalizeInputValue(type, value);
+    switch (type) {
+      case 'ebool': this.input.addBool(normalized); break;
+      case 'euint8': this.input.add8(normalized); break;
+      case 'euint16': this.input.add16(normalized); break;
+      case 'euint32': this.input.add32(normalized); break;
+      case 'euint64': this.input.add64(normalized); break;
+      case 'euint128': this.input.add128(normalized); break;
+      case 'euint256': this.input.add256(normalized); break;
+      case 'eaddress': this.input.addAddress(normalized); break;
+    }
+    this.types.push(type);
+    return this;
+  }
+
+  bool(value: boolean) {
+    return this.add('ebool', value);
+  }
+
+  uint8(value: number | bigint) {
+    return this.add('euint8', value);
+  }
+
+  uint16(value: number | bigint) {
+    return this.add('euint16', value);
+  }
+
+  uint32(value: number | bigint) {
+    return this.add('euint32', value);
+  }
+
+  uint64(value: number | bigint) {
+    return this.add('euint64', value);
+  }
+
+  uint128(value: number | bigint) {
+    return this.add('euint128', value);
+  }
+
+  uint256(value: number | bigint) {
+    return this.add('euint256', value);
+  }
+
+  address(value: string) {
+    return this.add('eaddress', value);
+  }
+
+  /**
+   * FHE types of the values added so far, in order
+   */
+  getTypes(): FheType[] {
+    return [...this.types];
+  }
+
+  async encrypt({ signal, retry }: FhevmCallOptions = {}): Promise<EncryptedInputResult> {
+    if (this.types.length === 0) {
+      throw new ValidationError('INVALID_INPUT', 'Encrypted input is empty. Add at least one value before encrypting.');
+    }
+
+    const { events, contractAddress = '', userAddress = '' } = this.options;
+    const context = { contractAddress, userAddress, types: this.getTypes() };
+    const startedAt = Date.now();
+    events?.emit('encryption:started', context);
+
+    let result;
+    try {
+      // Proof generation and submission to the relayer, retried on transient failures
+      result = await withRetry<any>(
+        () => this.input.encrypt(),
+        resolveRetryPolicy(this.options.retry, retry),
+        signal,
+        (error, attempt, willRetry) => events?.emit('relayer:error', { operation: 'encrypt', error, attempt, willRetry })
+      );
+    } catch (error) {
+      events?.emit('encryption:failed', { ...context, error: toFhevmError(error, 'ENCRYPTION_FAILED') });
+      throw error;
+    }
+    events?.emit('encryption:finished', { ...context, durationMs: Date.now() - startedAt });
+
+    return {
+      handles: result.handles.map((handle: Uint8Array | string, index: number) => ({
+        handle: ethers.hexlify(handle),
+        type: this.types[index],
+      })),
+      inputProof: ethers.hexlify(result.inputProof),
+    };
+  }
+}
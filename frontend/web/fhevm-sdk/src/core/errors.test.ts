@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { AbortedError, FhevmError, RelayerError, TransactionRevertedError, WalletError, toFhevmError } from './errors.js';
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const errorData = ethers.concat(['0x08c379a0', coder.encode(['string'], ['Not allowed'])]);
+const panicData = ethers.concat(['0x4e487b71', coder.encode(['uint256'], [0x11])]);
+
+describe('toFhevmError', () => {
+  it.each([
+    ['an AbortError', Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }), AbortedError, 'ABORTED'],
+    ['an EIP-1193 rejection', { code: 4001, message: 'User rejected the request.' }, WalletError, 'USER_REJECTED_SIGNATURE'],
+    ['an ethers rejection', { code: 'ACTION_REJECTED', message: 'user rejected action' }, WalletError, 'USER_REJECTED_SIGNATURE'],
+    ['a CALL_EXCEPTION', { code: 'CALL_EXCEPTION', message: 'execution reverted', data: errorData }, TransactionRevertedError, 'TRANSACTION_REVERTED'],
+    ['a CALL_EXCEPTION without data', { code: 'CALL_EXCEPTION', message: 'missing revert data', data: null }, TransactionRevertedError, 'TRANSACTION_REVERTED'],
+    ['an "execution reverted" RPC error', { code: 3, message: 'execution reverted: Not allowed' }, TransactionRevertedError, 'TRANSACTION_REVERTED'],
+    ['Error(string) data in a wallet error', { code: -32603, message: 'Internal JSON-RPC error.', error: { data: { data: errorData } } }, TransactionRevertedError, 'TRANSACTION_REVERTED'],
+    ['Panic(uint256) data', { code: -32603, message: 'Internal JSON-RPC error.', data: panicData }, TransactionRevertedError, 'TRANSACTION_REVERTED'],
+    ['a failed fetch', new TypeError('Failed to fetch'), RelayerError, 'RELAYER_UNAVAILABLE'],
+    ['a Node.js fetch failure', new TypeError('fetch failed'), RelayerError, 'RELAYER_UNAVAILABLE'],
+  ])('classifies %s', (_, error, type, code) => {
+    const classified = toFhevmError(error);
+
+    expect(classified).toBeInstanceOf(type);
+    expect(classified.code).toBe(code);
+    expect(classified.cause).toBe(error);
+  });
+
+  it.each([
+    ['a signature', { code: -32000, message: 'nonce too low', data: `0x${'ab'.repeat(65)}` }],
+    ['an RPC payload', { message: 'invalid response', data: '0xdeadbeef' }],
+    ['a nested hex field', { message: 'Internal JSON-RPC error.', error: { data: '0x1234' } }],
+  ])('does not read hex data in %s as a revert', (_, error) => {
+    const classified = toFhevmError(error, 'TRANSACTION_FAILED');
+
+    expect(classified).not.toBeInstanceOf(TransactionRevertedError);
+    expect(classified.code).toBe('TRANSACTION_FAILED');
+    expect(classified.message).toBe(error.message);
+  });
+
+  it('returns FhevmErrors unchanged', () => {
+    const error = new FhevmError('ACL_DENIED', 'Not allowed');
+
+    expect(toFhevmError(error)).toBe(error);
+  });
+
+  it('wraps other values with the fallback code', () => {
+    expect(toFhevmError('boom')).toMatchObject({ code: 'UNKNOWN', message: 'boom' });
+    expect(toFhevmError(new Error('boom'), 'ENCRYPTION_FAILED')).toMatchObject({ code: 'ENCRYPTION_FAILED', message: 'boom' });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * FHEVM SDK Errors - Universal SDK
+ * Error classes with stable codes so applications can react to specific failures
+ */
+
+import { DecodedRevert, decodeRevert } from './reverts.js';
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'INITIALIZATION_FAILED'
+  | 'SDK_NOT_LOADED'
+  | 'SDK_VERSION_MISMATCH'
+  | 'UNSUPPORTED_OPERATION'
+  | 'UNKNOWN_NETWORK'
+  | 'WALLET_MISSING'
+  | 'WRONG_CHAIN'
+  | 'USER_REJECTED_SIGNATURE'
+  | 'RELAYER_UNAVAILABLE'
+  | 'RELAYER_TIMEOUT'
+  | 'PROOF_INVALID'
+  | 'ACL_DENIED'
+  | 'INVALID_HANDLE'
+  | 'INVALID_INPUT'
+  | 'ENCRYPTION_FAILED'
+  | 'DECRYPTION_FAILED'
+  | 'TRANSACTION_FAILED'
+  | 'TRANSACTION_REVERTED'
+  | 'ABORTED'
+  | 'UNKNOWN';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  /** Original error, when this one wraps a lower-level failure */
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class NotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.') {
+    super('NOT_INITIALIZED', message);
+  }
+}
+
+/**
+ * Wallet / provider problems: missing wallet, wrong chain, rejected signature
+ */
+export class WalletError extends FhevmError {
+  constructor(
+    code: Extract<FhevmErrorCode, 'WALLET_MISSING' | 'WRONG_CHAIN' | 'USER_REJECTED_SIGNATURE'>,
+    message: string,
+    cause?: unknown
+  ) {
+    super(code, message, cause);
+  }
+}
+
+/**
+ * Relayer SDK or relayer service problems
+ */
+export class RelayerError extends FhevmError {
+  constructor(
+    code: Extract<
+      FhevmErrorCode,
+      | 'SDK_NOT_LOADED'
+      | 'SDK_VERSION_MISMATCH'
+      | 'UNSUPPORTED_OPERATION'
+      | 'RELAYER_UNAVAILABLE'
+      | 'RELAYER_TIMEOUT'
+      | 'PROOF_INVALID'
+    >,
+    message: string,
+    cause?: unknown
+  ) {
+    super(code, message, cause);
+  }
+}
+
+export class AclDeniedError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('ACL_DENIED', message, cause);
+  }
+}
+
+/**
+ * Invalid arguments: malformed handles, out-of-range values, unknown networks
+ */
+export class ValidationError extends FhevmError {
+  constructor(
+    code: Extract<FhevmErrorCode, 'INVALID_HANDLE' | 'INVALID_INPUT' | 'UNKNOWN_NETWORK'>,
+    message: string,
+    cause?: unknown
+  ) {
+    super(code, message, cause);
+  }
+}
+
+/**
+ * The contract reverted a call, simulation or mined transaction - `revert` holds the decoded reason
+ */
+export class TransactionRevertedError extends FhevmError {
+  readonly revert: DecodedRevert;
+
+  constructor(revert: DecodedRevert, cause?: unknown) {
+    super('TRANSACTION_REVERTED', `Transaction reverted: ${revert.message}`, cause);
+    this.revert = revert;
+  }
+}
+
+/**
+ * The operation was cancelled through its AbortSignal - its result was discarded
+ */
+export class AbortedError extends FhevmError {
+  constructor(message = 'The operation was aborted', cause?: unknown) {
+    super('ABORTED', message, cause);
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+/**
+ * Classify any thrown value as an FhevmError, keeping the original as `cause`
+ */
+export function toFhevmError(error: unknown, fallbackCode: FhevmErrorCode = 'UNKNOWN'): FhevmError {
+  if (error instanceof FhevmError) return error;
+
+  const err = error as any;
+  const message: string = err?.message ?? String(error);
+
+  if (err?.name === 'AbortError') {
+    return new AbortedError(message, error);
+  }
+  if (err?.code === 4001 || err?.code === 'ACTION_REJECTED' || /user (rejected|denied)/i.test(message)) {
+    return new WalletError('USER_REJECTED_SIGNATURE', 'The request was rejected in the wallet', error);
+  }
+  const revert = decodeRevert(error);
+  if (revert) {
+    return new TransactionRevertedError(revert, error);
+  }
+  if (message.includes('Failed to fetch') || message.includes('NetworkError') || message.includes('fetch failed')) {
+    return new RelayerError('RELAYER_UNAVAILABLE', 'Relayer service is temporarily unavailable. Please try again later.', error);
+  }
+  return new FhevmError(fallbackCode, message, error);
+}
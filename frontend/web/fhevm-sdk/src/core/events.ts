@@ -0,0 +1,100 @@
+/**
+ * FHEVM Events - Universal SDK
+ * Typed lifecycle events for progress bars, analytics and devtools
+ */
+
+import { FhevmError } from './errors.js';
+import { FheType } from './fheTypes.js';
+import { FhevmProgressEvent } from './worker.js';
+import { getLogger } from './logger.js';
+
+export type RelayerOperation = 'encrypt' | 'userDecrypt' | 'publicDecrypt';
+
+export interface FhevmEventMap {
+  'instance:initialized': { network: string; chainId: number; mode: 'browser' | 'node' | 'mock'; durationMs: number };
+  'instance:failed': { error: FhevmError };
+  'wasm:loaded': { durationMs: number };
+  'encryption:started': { contractAddress: string; userAddress: string; types: FheType[] };
+  'encryption:finished': { contractAddress: string; userAddress: string; types: FheType[]; durationMs: number };
+  'encryption:failed': { contractAddress: string; userAddress: string; types: FheType[]; error: FhevmError };
+  'signature:requested': { userAddress: string; contractAddresses: string[] };
+  'decryption:started': { kind: 'user' | 'public'; handles: string[] };
+  'decryption:finished': { kind: 'user' | 'public'; handles: string[]; durationMs: number };
+  'decryption:failed': { kind: 'user' | 'public'; handles: string[]; error: FhevmError };
+  /** A relayer attempt failed - `willRetry` tells whether the retry policy tries again */
+  'relayer:error': { operation: RelayerOperation; error: FhevmError; attempt: number; willRetry: boolean };
+  /** The ACL could not be read - the handles were sent to the relayer without a preflight check */
+  'acl:preflight-failed': { kind: 'user' | 'public'; handles: string[]; error: FhevmError };
+  'worker:progress': FhevmProgressEvent;
+}
+
+export type FhevmEventName = keyof FhevmEventMap;
+
+export type FhevmEventListener<K extends FhevmEventName> = (payload: FhevmEventMap[K]) => void;
+
+export type FhevmAnyEventListener = <K extends FhevmEventName>(event: K, payload: FhevmEventMap[K]) => void;
+
+const log = getLogger('events');
+
+export class FhevmEventEmitter {
+  private listeners = new Map<FhevmEventName, Set<FhevmEventListener<any>>>();
+  private anyListeners = new Set<FhevmAnyEventListener>();
+
+  /**
+   * Subscribe to an event - returns an unsubscribe function
+   */
+  on<K extends FhevmEventName>(event: K, listener: FhevmEventListener<K>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<K extends FhevmEventName>(event: K, listener: FhevmEventListener<K>): () => void {
+    const unsubscribe = this.on(event, payload => {
+      unsubscribe();
+      listener(payload);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends FhevmEventName>(event: K, listener: FhevmEventListener<K>) {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Subscribe to every event, e.g. for devtools
+   */
+  onAny(listener: FhevmAnyEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit<K extends FhevmEventName>(event: K, payload: FhevmEventMap[K]) {
+    // A failing listener must not break the SDK call that emitted the event
+    for (const listener of Array.from(this.listeners.get(event) ?? [])) {
+      try {
+        listener(payload);
+      } catch (error) {
+        log.warn(`Listener for ${event} threw`, error);
+      }
+    }
+    for (const listener of Array.from(this.anyListeners)) {
+      try {
+        listener(event, payload);
+      } catch (error) {
+        log.warn(`Listener for ${event} threw`, error);
+      }
+    }
+  }
+
+  removeAllListeners() {
+    this.listeners.clear();
+    this.anyListeners.clear();
+  }
+}
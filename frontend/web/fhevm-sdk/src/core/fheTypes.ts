@@ -0,0 +1,59 @@
+/**
+ * FHE Types - Universal FHEVM SDK
+ * Encrypted type names, handle type ids and bit widths shared by encryption and decryption
+ */
+
+import { ValidationError } from './errors.js';
+
+export type FheType =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'eaddress'
+  | 'euint256';
+
+/**
+ * Type discriminant stored in byte 30 of a ciphertext handle
+ */
+export const FHE_TYPE_IDS: Record<FheType, number> = {
+  ebool: 0,
+  euint8: 2,
+  euint16: 3,
+  euint32: 4,
+  euint64: 5,
+  euint128: 6,
+  eaddress: 7,
+  euint256: 8,
+};
+
+export const FHE_TYPE_BITS: Record<FheType, number> = {
+  ebool: 2,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  eaddress: 160,
+  euint256: 256,
+};
+
+export function fheTypeFromId(id: number): FheType | undefined {
+  return (Object.keys(FHE_TYPE_IDS) as FheType[]).find(type => FHE_TYPE_IDS[type] === id);
+}
+
+/**
+ * Read the FHE type encoded in a ciphertext handle
+ */
+export function getHandleType(handle: string): FheType {
+  if (typeof handle !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(handle)) {
+    throw new ValidationError('INVALID_HANDLE', `Invalid ciphertext handle ${handle}`);
+  }
+  const type = fheTypeFromId(parseInt(handle.slice(-4, -2), 16));
+  if (!type) {
+    throw new ValidationError('INVALID_HANDLE', `Handle ${handle} is not of a supported FHE type`);
+  }
+  return type;
+}
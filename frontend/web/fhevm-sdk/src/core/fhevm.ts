@@ -5,394 +5,840 @@
  */
 
 import { ethers } from "ethers";
-
-let fheInstance: any = null;
+import {
+  FhevmNetworkConfig,
+  HARDHAT_NETWORK,
+  assertChainId,
+  findNetworkByChainId,
+  resolveNetwork,
+  toInstanceConfig,
+} from './networks.js';
+import { createMockInstance, getRelayerMetadata } from './mock.js';
+import { RelayerSdkLoaderOptions } from './loader.js';
+import { WasmAssetOptions, preloadFhevm } from './wasm.js';
+import {
+  FhevmProgressEvent,
+  FhevmWorker,
+  FhevmWorkerFactory,
+  createWorkerInstance,
+  defaultWorkerFactory,
+} from './worker.js';
+import { EncryptedInputBuilder, FheInputValue } from './encryption.js';
+import { FheType } from './fheTypes.js';
+import { ParsedHandle, validateHandle } from './handles.js';
+import { DecryptionSessionManager, SessionStore } from './sessions.js';
+import {
+  DecryptedValue,
+  DecryptionOutcome,
+  HandleContractPair,
+  PublicDecryptionResult,
+  abiEncodeClearValues,
+  findClearValue,
+  splitDecryptionBatches,
+  toDecryptedValue,
+} from './decryption.js';
+import { createEip1193Bridge } from './eip1193.js';
+import { FhevmLogger, LoggerOptions, getLogger } from './logger.js';
+import { AclChecker, AclDenial } from './acl.js';
+import { FhevmCallOptions, throwIfAborted, withAbort } from './abort.js';
+import { RetryPolicy, resolveRetryPolicy, withRetry } from './retry.js';
+import {
+  FhevmAnyEventListener,
+  FhevmEventEmitter,
+  FhevmEventListener,
+  FhevmEventName,
+  RelayerOperation,
+} from './events.js';
+import {
+  AclDeniedError,
+  FhevmError,
+  NotInitializedError,
+  RelayerError,
+  WalletError,
+  isFhevmError,
+  toFhevmError,
+} from './errors.js';
+
+export interface FhevmClientOptions {
+  /** Network preset name (e.g. 'sepolia', 'hardhat') or a custom config, defaults to the wallet's chain or 'sepolia' */
+  network?: string | FhevmNetworkConfig;
+  /** Use the @fhevm/hardhat-plugin mock coprocessor - 'auto' (default) enables it on chain 31337 */
+  mock?: boolean | 'auto';
+  /** RPC endpoint used by the Node.js instance, defaults to the network's first RPC URL */
+  rpcUrl?: string;
+  /** EIP-1193 provider for the browser instance, defaults to window.ethereum */
+  provider?: any;
+  /** Node.js: ethers Signer/Wallet used for accounts, typed-data signing and transactions */
+  signer?: ethers.Signer;
+  /** Node.js: private key of the service account (alternative to `signer`) */
+  privateKey?: string;
+  /** Node.js: encrypted JSON keystore of the service account (alternative to `signer`) */
+  keystore?: { json: string; password: string };
+  /** Where decryption sessions are kept, defaults to IndexedDB (in-memory without it) */
+  sessionStore?: SessionStore;
+  /** Lifetime of a decryption session in days, defaults to 10 */
+  sessionDurationDays?: number;
+  /** How the browser relayer bundle is loaded - see RelayerSdkLoaderOptions */
+  relayerSdk?: RelayerSdkLoaderOptions;
+  /** Where the TFHE and KMS WASM modules are loaded from - see WasmAssetOptions */
+  wasm?: WasmAssetOptions;
+  /**
+   * Browser: run the relayer instance (encryption, input proofs, keypairs, decryption) in a Web Worker,
+   * the main thread then loads no WASM. `true` uses the SDK's worker entry, a factory can supply a worker built by the app.
+   */
+  worker?: boolean | FhevmWorkerFactory;
+  /** Retry and timeout policy of relayer calls (input proofs, user and public decryption) */
+  retry?: RetryPolicy | false;
+  /** Check ACL permissions on-chain before asking the relayer to decrypt, defaults to true */
+  aclPreflight?: boolean;
+  /** Logging of this client (level, sink, redaction), on top of configureLogger's settings - silent unless configured */
+  logger?: LoggerOptions;
+}
 
 /**
- * Initialize FHEVM instance for browser environment
+ * FHEVM client - one relayer instance per network/signer
+ *
+ * Every client carries its own instance and config, so several chains or
+ * wallets can be used side by side in the same page or Node.js process.
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+export class FhevmClient {
+  private instance: any = null;
+  private options: FhevmClientOptions;
+  private network: FhevmNetworkConfig | null = null;
+  private signer: ethers.Signer | null = null;
+  private sessions: DecryptionSessionManager;
+  private worker: FhevmWorker | null = null;
+  private acl: AclChecker | null = null;
+  private events = new FhevmEventEmitter();
+  private log: FhevmLogger;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.options = { ...options };
+    this.sessions = this.createSessionManager();
+    this.log = getLogger('core', this.options.logger);
   }
 
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
-
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+  private createSessionManager() {
+    return new DecryptionSessionManager(this.options.sessionStore, {
+      durationDays: this.options.sessionDurationDays,
+      events: this.events,
+    });
   }
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+  /**
+   * Initialize FHEVM instance - Environment-aware
+   */
+  async initialize(options?: FhevmClientOptions, { signal }: FhevmCallOptions = {}) {
+    const previous = this.options;
+    this.options = { ...this.options, ...options };
+    if (this.options.sessionStore !== previous.sessionStore || this.options.sessionDurationDays !== previous.sessionDurationDays) {
+      this.sessions = this.createSessionManager();
+    }
+    if (this.options.logger !== previous.logger) this.log = getLogger('core', this.options.logger);
+    let network: FhevmNetworkConfig;
+    let mode: 'browser' | 'node' | 'mock';
+    let instance: any;
+    let signer: ethers.Signer | null = null;
+    let worker: FhevmWorker | null = null;
+    let acl: AclChecker;
+    const startedAt = Date.now();
+
+    // Built into locals so a failed initialization leaves the previous instance untouched
+    try {
+      // Detect environment
+      throwIfAborted(signal);
+      const provider = this.options.provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+      network = await withAbort(this.selectNetwork(provider), signal);
+      let aclAddress = network.aclContractAddress;
+
+      if (this.options.mock === true || (this.options.mock !== false && network.chainId === HARDHAT_NETWORK.chainId)) {
+        // Local Hardhat node - use the mock coprocessor, no relayer needed
+        mode = 'mock';
+        ({ instance, signer, aclAddress } = await withAbort(this.initializeMockInstance(provider, network), signal));
+      } else if (provider) {
+        // Browser environment - use existing working code
+        mode = 'browser';
+        ({ instance, worker } = await this.initializeBrowserInstance(provider, network, signal));
+      } else if (typeof window !== 'undefined') {
+        throw new WalletError('WALLET_MISSING', 'Ethereum provider not found. Please install MetaMask or connect a wallet.');
+      } else {
+        // Node.js environment - use new functionality
+        mode = 'node';
+        ({ instance, signer } = await withAbort(this.initializeNodeInstance(network, this.options.rpcUrl), signal));
+      }
+
+      acl = new AclChecker(
+        provider ? new ethers.BrowserProvider(provider) : new ethers.JsonRpcProvider(this.options.rpcUrl || network.rpcUrls[0]),
+        aclAddress
+      );
+    } catch (error) {
+      worker?.terminate();
+      const fhevmError = toFhevmError(error, 'INITIALIZATION_FAILED');
+      this.events.emit('instance:failed', { error: fhevmError });
+      throw fhevmError;
+    }
 
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
-  try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
+    this.worker?.terminate();
+    this.instance = instance;
+    this.network = network;
+    this.signer = signer;
+    this.worker = worker;
+    this.acl = acl;
+    this.events.emit('instance:initialized', {
+      network: network.name,
+      chainId: network.chainId,
+      mode,
+      durationMs: Date.now() - startedAt,
     });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
+    return this.instance;
   }
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  getInstance() {
+    return this.instance;
+  }
 
-  try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
-    throw err;
+  /**
+   * Network preset the current instance was created for
+   */
+  getNetwork() {
+    return this.network;
   }
-}
 
-/**
- * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
- */
-async function initializeNodeFheInstance(rpcUrl?: string) {
-  try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
-    
-    // Use eval to prevent webpack from analyzing these imports
-    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
-    
-    const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
+  get isInitialized() {
+    return this.instance !== null;
+  }
+
+  /**
+   * Drop the relayer instance so the client can be initialized again
+   */
+  reset() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.acl = null;
+    this.instance = null;
+    this.network = null;
+    this.signer = null;
+  }
+
+  /**
+   * ACL permission checks against the network of the current instance
+   */
+  getAcl(): AclChecker {
+    this.requireInstance();
+    return this.acl!;
+  }
+
+  /**
+   * Subscribe to worker progress (loading, encrypting, keypair generation) - returns an unsubscribe function
+   */
+  onProgress(listener: (event: FhevmProgressEvent) => void) {
+    return this.on('worker:progress', listener);
+  }
+
+  /**
+   * Subscribe to an SDK lifecycle event - returns an unsubscribe function
+   */
+  on<K extends FhevmEventName>(event: K, listener: FhevmEventListener<K>) {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to every SDK lifecycle event, e.g. for devtools
+   */
+  onAny(listener: FhevmAnyEventListener) {
+    return this.events.onAny(listener);
+  }
+
+  /**
+   * Emit decryption:started now - the returned callback emits finished, or failed when given the error
+   */
+  private trackDecryption(kind: 'user' | 'public', handles: string[]) {
+    const startedAt = Date.now();
+    this.events.emit('decryption:started', { kind, handles });
+    return (error?: FhevmError) => {
+      if (error) {
+        this.events.emit('decryption:failed', { kind, handles, error });
+      } else {
+        this.events.emit('decryption:finished', { kind, handles, durationMs: Date.now() - startedAt });
+      }
     };
-    
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
-    throw err;
   }
-}
 
-/**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
- */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+  private reportRelayerError(operation: RelayerOperation) {
+    return (error: FhevmError, attempt: number, willRetry: boolean) =>
+      this.events.emit('relayer:error', { operation, error, attempt, willRetry });
   }
-}
 
-export function getFheInstance() {
-  return fheInstance;
-}
+  /**
+   * Parse a handle and check it belongs to the network of this client
+   */
+  inspectHandle(handle: string | Uint8Array): ParsedHandle {
+    this.requireInstance();
+    return validateHandle(handle, this.network!);
+  }
 
-/**
- * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
- */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
+  private requireInstance() {
+    if (!this.instance) throw new NotInitializedError();
+    return this.instance;
+  }
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+  /**
+   * Network from the options, or the registered preset matching the wallet's chain
+   */
+  private async selectNetwork(provider: any): Promise<FhevmNetworkConfig> {
+    if (this.options.network) return resolveNetwork(this.options.network);
+    if (this.options.mock === true) return HARDHAT_NETWORK;
+    if (provider) {
+      const chainId = Number(await provider.request({ method: 'eth_chainId' }));
+      return findNetworkByChainId(chainId) ?? resolveNetwork();
+    }
+    return resolveNetwork();
+  }
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
+  /**
+   * Initialize FHEVM mock instance against a local Hardhat node
+   */
+  private async initializeMockInstance(provider: any, network: FhevmNetworkConfig) {
+    if (provider) {
+      await assertChainId(provider, network);
+    }
+
+    const rpcUrl = this.options.rpcUrl || network.rpcUrls[0];
+    const signer = provider ? null : await this.createNodeSigner(new ethers.JsonRpcProvider(rpcUrl));
+
+    const metadata = await getRelayerMetadata(rpcUrl);
+    const instance = await createMockInstance(network, rpcUrl, metadata);
+    this.log.info('Mock instance created against', rpcUrl);
+    // The plugin deploys the host contracts wherever it likes - the preset addresses may not match
+    return { instance, signer, aclAddress: metadata.ACLAddress };
+  }
+
+  /**
+   * Initialize FHEVM instance for browser environment
+   */
+  private async initializeBrowserInstance(provider: any, network: FhevmNetworkConfig, signal?: AbortSignal) {
+    await withAbort(assertChainId(provider, network), signal);
+
+    if (this.options.worker) {
+      const worker = await this.startWorker(network, signal);
+      // The worker owns the only instance - the main thread skips the WASM entirely
+      if (worker) return { instance: createWorkerInstance(worker), worker };
+    }
+
+    const wasmStartedAt = Date.now();
+    const { createInstance } = await withAbort(
+      preloadFhevm({ relayerSdk: this.options.relayerSdk, wasm: this.options.wasm }),
+      signal
     );
+    this.events.emit('wasm:loaded', { durationMs: Date.now() - wasmStartedAt });
+
+    const config = toInstanceConfig(network, provider);
 
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+    let instance;
+    try {
+      instance = await withAbort(createInstance(config), signal);
+    } catch (err) {
+      this.log.error('Browser instance creation failed', err);
+      throw err;
     }
-    throw error;
+    return { instance, worker: null };
   }
-}
 
-/**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
- */
-export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
+  /**
+   * Start the Web Worker running the relayer instance - null when it cannot start,
+   * in which case the instance is created on the main thread
+   */
+  private async startWorker(network: FhevmNetworkConfig, signal?: AbortSignal): Promise<FhevmWorker | null> {
+    const factory = typeof this.options.worker === 'function' ? this.options.worker : defaultWorkerFactory;
+    let worker: FhevmWorker | null = null;
+    try {
+      worker = new FhevmWorker(factory(), event => {
+        this.events.emit('worker:progress', event);
+      });
+      await withAbort(worker.init({
+        relayerSdk: this.options.relayerSdk,
+        wasm: this.options.wasm,
+        instanceConfig: toInstanceConfig(network, this.options.rpcUrl || network.rpcUrls[0]),
+      }), signal);
+    } catch (err) {
+      worker?.terminate();
+      if (isFhevmError(err, 'ABORTED')) throw err;
+      this.log.warn('FHEVM worker failed to start, running the instance on the main thread', err);
+      return null;
+    }
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+    this.log.info('FHEVM worker started');
+    return worker;
+  }
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
+  /**
+   * Initialize FHEVM instance for Node.js environment
+   * REAL FUNCTIONALITY - uses actual RelayerSDK
+   */
+  private async initializeNodeInstance(network: FhevmNetworkConfig, rpcUrl?: string) {
+    try {
+      this.log.info('Initializing Node.js instance');
+
+      // Use eval to prevent webpack from analyzing these imports
+      const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+      const { createInstance } = relayerSDKModule;
+
+      const provider = new ethers.JsonRpcProvider(rpcUrl || network.rpcUrls[0]);
+
+      const { chainId } = await provider.getNetwork();
+      if (Number(chainId) !== network.chainId) {
+        throw new WalletError('WRONG_CHAIN', `RPC endpoint is on chain ${chainId} but FHEVM network "${network.name}" expects chain ${network.chainId}`);
+      }
 
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
+      const signer = await this.createNodeSigner(provider);
+
+      // Create an EIP-1193 compatible provider for Node.js
+      const config = toInstanceConfig(network, createEip1193Bridge(provider, signer ?? undefined));
+
+      const instance = await createInstance(config);
+      this.log.info('Node.js instance created');
+      return { instance, signer };
+    } catch (err) {
+      this.log.error('Node.js instance creation failed', err);
+      throw err;
     }
+  }
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+  /**
+   * Service-account signer from the signer / privateKey / keystore options
+   */
+  private async createNodeSigner(provider: ethers.JsonRpcProvider): Promise<ethers.Signer | null> {
+    const { signer, privateKey, keystore } = this.options;
+    if (signer) {
+      return signer.provider ? signer : signer.connect(provider);
     }
-    throw error;
+    if (privateKey) {
+      return new ethers.Wallet(privateKey, provider);
+    }
+    if (keystore) {
+      const wallet = await ethers.Wallet.fromEncryptedJson(keystore.json, keystore.password);
+      return wallet.connect(provider);
+    }
+    return null;
   }
-}
 
-/**
- * Encrypt values using FHEVM
- * 
- * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
- */
-export async function encryptValue(
-  contractAddress: string,
-  address: string,
-  plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
+  /**
+   * Signer configured at initialization (Node.js only)
+   */
+  getSigner() {
+    return this.signer;
+  }
 
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
+  private resolveSigner(signer?: any) {
+    const resolved = signer ?? this.signer;
+    if (!resolved) {
+      throw new WalletError('WALLET_MISSING', 'No signer available. Pass a signer or initialize the client with one.');
+    }
+    return resolved;
   }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
-}
 
-/**
- * Create encrypted input for contract interaction (matches showcase API)
- */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
+  /**
+   * EIP-712 user decryption through the signer's decryption sessions
+   *
+   * One authorization covers up to MAX_SESSION_CONTRACTS contracts; the handles of each
+   * are sent in as many relayer requests as the bit limit requires and merged back.
+   */
+  private async userDecrypt(
+    handleContractPairs: HandleContractPair[],
+    signer?: any,
+    { signal, retry }: FhevmCallOptions = {}
+  ): Promise<Record<string, any>> {
+    const fhe = this.requireInstance();
+    const policy = resolveRetryPolicy(this.options.retry, retry);
+    const contractAddresses = Array.from(new Set(handleContractPairs.map(pair => pair.contractAddress)));
+    const sessions = await withAbort(
+      this.sessions.getSessions(fhe, this.resolveSigner(signer), contractAddresses, this.network!.chainId),
+      signal
+    );
+
+    const results: Record<string, any> = {};
+    let remaining = handleContractPairs;
+    for (const session of sessions) {
+      const covered = new Set(session.contractAddresses.map(address => address.toLowerCase()));
+      const pairs = remaining.filter(pair => covered.has(pair.contractAddress.toLowerCase()));
+      remaining = remaining.filter(pair => !covered.has(pair.contractAddress.toLowerCase()));
+
+      for (const batch of splitDecryptionBatches(pairs)) {
+        // No further relayer requests once aborted
+        throwIfAborted(signal);
+        const result = await withRetry(() => fhe.userDecrypt(
+          batch,
+          session.privateKey,
+          session.publicKey,
+          session.signature.replace("0x", ""),
+          session.contractAddresses,
+          session.userAddress,
+          session.startTimestamp.toString(),
+          session.durationDays.toString()
+        ), policy, signal, this.reportRelayerError('userDecrypt'));
+        Object.assign(results, result);
+      }
     }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
+    return results;
+  }
+
+  /**
+   * Handles the ACL does not let the signer user-decrypt, empty when preflight is off.
+   * When the ACL cannot be read, acl:preflight-failed is emitted and the relayer makes the call.
+   */
+  private async checkUserAcl(handleContractPairs: HandleContractPair[], signer?: any): Promise<Record<string, AclDenial>> {
+    if (this.options.aclPreflight === false || !this.acl) return {};
+    try {
+      const userAddress = await this.resolveSigner(signer).getAddress();
+      return await this.acl.checkUserDecryption(handleContractPairs, userAddress);
+    } catch (error) {
+      if (isFhevmError(error)) throw error;
+      this.reportAclPreflightFailure('user', handleContractPairs.map(pair => pair.handle), error);
+      return {};
     }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
+  }
+
+  private async checkPublicAcl(handles: string[]): Promise<Record<string, AclDenial>> {
+    if (this.options.aclPreflight === false || !this.acl) return {};
+    try {
+      return await this.acl.checkPublicDecryption(handles);
+    } catch (error) {
+      this.reportAclPreflightFailure('public', handles, error);
+      return {};
     }
   }
-  
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
-}
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
+  private reportAclPreflightFailure(kind: 'user' | 'public', handles: string[], error: unknown) {
+    const fhevmError = toFhevmError(error);
+    this.log.warn(`ACL preflight of ${handles.length} handles failed, leaving the permission check to the relayer`, fhevmError.message);
+    this.events.emit('acl:preflight-failed', { kind, handles, error: fhevmError });
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   */
+  async decryptValue(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer?: any,
+    options: FhevmCallOptions = {}
+  ): Promise<DecryptedValue> {
+    const { signal } = options;
+    this.requireInstance();
+    const done = this.trackDecryption('user', [encryptedBytes]);
+
+    try {
+      this.log.debug('User decryption', { handle: encryptedBytes, contractAddress });
+
+      const pairs = [{ handle: encryptedBytes, contractAddress }];
+      // Zero, foreign-chain or malformed handles would only fail at the relayer
+      validateHandle(encryptedBytes, this.network!);
+      const denial = (await withAbort(this.checkUserAcl(pairs, signer), signal))[encryptedBytes];
+      if (denial) throw new AclDeniedError(denial.message);
+
+      const result = await this.userDecrypt(pairs, signer, options);
+
+      const value = toDecryptedValue(encryptedBytes, result[encryptedBytes]);
+      done();
+      return value;
+    } catch (error) {
+      const fhevmError = toFhevmError(error, 'DECRYPTION_FAILED');
+      done(fhevmError);
+      throw fhevmError;
+    }
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer?: any,
+    options?: FhevmCallOptions
+  ): Promise<Record<string, DecryptionOutcome>> {
+    return this.batchDecrypt(handles.map(handle => ({ handle, contractAddress })), signer, options);
+  }
+
+  /**
+   * Batch decrypt handles owned by several contracts with a single EIP-712 authorization
+   *
+   * Handles the ACL denies are reported per handle and left out of the relayer request.
+   */
+  async batchDecrypt(
+    handleContractPairs: HandleContractPair[],
+    signer?: any,
+    options: FhevmCallOptions = {}
+  ): Promise<Record<string, DecryptionOutcome>> {
+    const { signal } = options;
+    this.requireInstance();
+    const done = this.trackDecryption('user', handleContractPairs.map(pair => pair.handle));
+
+    try {
+      this.log.debug(`Batch user decryption of ${handleContractPairs.length} handles`);
+
+      handleContractPairs.forEach(pair => validateHandle(pair.handle, this.network!));
+      const denied = await withAbort(this.checkUserAcl(handleContractPairs, signer), signal);
+      const allowed = handleContractPairs.filter(pair => !denied[pair.handle]);
+      const result = allowed.length > 0 ? await this.userDecrypt(allowed, signer, options) : {};
+
+      // Type each clear value by its handle
+      const outcomes: Record<string, DecryptionOutcome> = {};
+      for (const { handle } of handleContractPairs) {
+        outcomes[handle] = denied[handle]
+          ? { status: 'denied', ...denied[handle] }
+          : { status: 'decrypted', value: toDecryptedValue(handle, result[handle]) };
       }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
+
+      done();
+      return outcomes;
+    } catch (error) {
+      const fhevmError = toFhevmError(error, 'DECRYPTION_FAILED');
+      done(fhevmError);
+      throw fhevmError;
+    }
+  }
+
+  /**
+   * Forget the stored decryption sessions of an account - the next decryption asks for a new signature
+   */
+  async revokeDecryptionSession(userAddress: string) {
+    await this.sessions.revoke(userAddress, this.network?.chainId);
+  }
+
+  async clearDecryptionSessions() {
+    await this.sessions.clear();
+  }
+
+  /**
+   * Start a typed encrypted input - see EncryptedInputBuilder
+   */
+  createInput(contractAddress: string, userAddress: string) {
+    const fhe = this.requireInstance();
+    return new EncryptedInputBuilder(fhe.createEncryptedInput(contractAddress, userAddress), {
+      retry: this.options.retry,
+      events: this.events,
+      contractAddress,
+      userAddress,
+    });
+  }
+
+  /**
+   * Encrypt values using FHEVM
+   *
+   * All values are encrypted with the same FHE type (euint8 by default).
+   * Use createInput() to mix types in a single proof.
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: Array<number | bigint>,
+    type: FheType = 'euint8',
+    { signal, retry }: FhevmCallOptions = {}
+  ) {
+    const relayer = this.requireInstance();
+
+    const inputHandle = relayer.createEncryptedInput(contractAddress, address);
+    const builder = new EncryptedInputBuilder(inputHandle);
+    for (const d of plainDigits) {
+      builder.add(type, d);
+    }
+
+    const context = { contractAddress, userAddress: address, types: builder.getTypes() };
+    const startedAt = Date.now();
+    this.events.emit('encryption:started', context);
+
+    try {
+      const ciphertextBlob = await withRetry(
+        () => inputHandle.encrypt(),
+        resolveRetryPolicy(this.options.retry, retry),
+        signal,
+        this.reportRelayerError('encrypt')
+      );
+      this.events.emit('encryption:finished', { ...context, durationMs: Date.now() - startedAt });
+      return ciphertextBlob;
+    } catch (error) {
+      const fhevmError = toFhevmError(error, 'ENCRYPTION_FAILED');
+      this.events.emit('encryption:failed', { ...context, error: fhevmError });
+      throw fhevmError;
+    }
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+    value: FheInputValue,
+    type: FheType = 'euint32',
+    options?: FhevmCallOptions
+  ) {
+    this.log.debug('Creating encrypted input', { contractAddress, userAddress, type });
+
+    let result;
+    try {
+      result = await this.createInput(contractAddress, userAddress).add(type, value).encrypt(options);
+    } catch (error) {
+      throw toFhevmError(error, 'ENCRYPTION_FAILED');
+    }
+
+    this.log.debug('Encrypted input created', { handles: result.handles.length });
+
+    return {
+      encryptedData: result.handles[0].handle,
+      proof: result.inputProof
+    };
+  }
+
+  /**
+   * Public decryption with a KMS decryption proof (FHEVM v0.9)
+   *
+   * Clear values are ABI-encoded according to each handle's FHE type so they
+   * can be passed to FHE.checkSignatures together with the proof. Handles that are
+   * not publicly decryptable are reported in `denied` and left out of the proof.
+   */
+  async publicDecryptV09(handles: string[], { signal, retry }: FhevmCallOptions = {}): Promise<PublicDecryptionResult> {
+    const fhe = this.requireInstance();
+    const done = this.trackDecryption('public', handles);
+
+    try {
+      this.log.debug(`Public decryption of ${handles.length} handles`);
+
+      // Reject malformed, zero or foreign-chain handles before reaching the relayer
+      handles.forEach(handle => validateHandle(handle, this.network!));
+
+      const denied = await withAbort(this.checkPublicAcl(handles), signal);
+      const allowed = handles.filter(handle => !denied[handle]);
+      if (allowed.length === 0) {
+        throw new AclDeniedError(Object.values(denied).map(denial => denial.message).join('; '));
       }
 
-      if (handles.length === 1) {
+      if (typeof fhe.publicDecrypt !== 'function') {
+        throw new RelayerError('UNSUPPORTED_OPERATION', 'Public decryption is not supported by the loaded RelayerSDK. Upgrade to @zama-fhe/relayer-sdk 0.3 or later.');
+      }
 
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
+      const result = await withRetry<any>(
+        () => fhe.publicDecrypt(allowed),
+        resolveRetryPolicy(this.options.retry, retry),
+        signal,
+        this.reportRelayerError('publicDecrypt')
+      );
+      if (!result || !result.clearValues) {
+        throw new RelayerError('PROOF_INVALID', 'Invalid publicDecrypt result structure');
+      }
+      if (!result.decryptionProof || result.decryptionProof === '0x') {
+        throw new RelayerError('PROOF_INVALID', 'Relayer returned an empty decryption proof');
+      }
 
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
+      const clearValues: Record<string, bigint | boolean | string> = {};
+      const values: Record<string, DecryptedValue> = {};
+      for (const handle of allowed) {
+        const clearValue = findClearValue(result.clearValues, handle);
+        clearValues[handle] = clearValue as bigint | boolean | string;
+        values[handle] = toDecryptedValue(handle, clearValue);
       }
-      
+
+      done();
       return {
+        handles: allowed,
+        denied,
         clearValues,
-        abiEncodedClearValues,
-        decryptionProof
+        values,
+        abiEncodedClearValues: result.abiEncodedClearValues || abiEncodeClearValues(allowed, values),
+        decryptionProof: result.decryptionProof
       };
+    } catch (error) {
+      const fhevmError = toFhevmError(error, 'DECRYPTION_FAILED');
+      done(fhevmError);
+      throw fhevmError;
     }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
   }
 }
 
+let defaultClient = new FhevmClient();
+
+/**
+ * Client used by the free functions below
+ */
+export function getDefaultClient() {
+  return defaultClient;
+}
+
+export function setDefaultClient(client: FhevmClient) {
+  defaultClient = client;
+}
+
+/**
+ * Initialize FHEVM instance - Environment-aware
+ * MAINTAINS BACKWARD COMPATIBILITY
+ */
+export async function initializeFheInstance(options?: FhevmClientOptions, callOptions?: FhevmCallOptions) {
+  return defaultClient.initialize(options, callOptions);
+}
+
+export function getFheInstance() {
+  return defaultClient.getInstance();
+}
 
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer?: any,
+  options?: FhevmCallOptions
+): Promise<DecryptedValue> {
+  return defaultClient.decryptValue(encryptedBytes, contractAddress, signer, options);
+}
+
+export async function batchDecryptValues(
+  handles: string[],
+  contractAddress: string,
+  signer?: any,
+  options?: FhevmCallOptions
+): Promise<Record<string, DecryptionOutcome>> {
+  return defaultClient.batchDecryptValues(handles, contractAddress, signer, options);
+}
+
+export async function batchDecrypt(
+  handleContractPairs: HandleContractPair[],
+  signer?: any,
+  options?: FhevmCallOptions
+): Promise<Record<string, DecryptionOutcome>> {
+  return defaultClient.batchDecrypt(handleContractPairs, signer, options);
+}
+
+export async function revokeDecryptionSession(userAddress: string) {
+  return defaultClient.revokeDecryptionSession(userAddress);
+}
+
+export async function clearDecryptionSessions() {
+  return defaultClient.clearDecryptionSessions();
+}
+
+export async function encryptValue(
+  contractAddress: string,
+  address: string,
+  plainDigits: Array<number | bigint>,
+  type: FheType = 'euint8',
+  options?: FhevmCallOptions
+) {
+  return defaultClient.encryptValue(contractAddress, address, plainDigits, type, options);
+}
+
+export function createInput(contractAddress: string, userAddress: string) {
+  return defaultClient.createInput(contractAddress, userAddress);
+}
+
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: FheInputValue,
+  type: FheType = 'euint32',
+  options?: FhevmCallOptions
+) {
+  return defaultClient.createEncryptedInput(contractAddress, userAddress, value, type, options);
+}
+
+export async function publicDecryptV09(handles: string[], options?: FhevmCallOptions) {
+  return defaultClient.publicDecryptV09(handles, options);
+}
@@ -0,0 +1,68 @@
+/**
+ * FHEVM Worker Entry - Universal SDK
+ * Owns a relayer instance off the main thread and answers FhevmWorker requests
+ */
+
+import { isFhevmError } from './errors.js';
+import { preloadFhevm } from './wasm.js';
+import type { FhevmProgressEvent, FhevmWorkerRequest, FhevmWorkerResponse } from './worker.js';
+
+const scope = self as any;
+
+let instance: any = null;
+
+function post(message: FhevmWorkerResponse) {
+  scope.postMessage(message);
+}
+
+async function handle(request: FhevmWorkerRequest, progress: (stage: FhevmProgressEvent['stage']) => void) {
+  switch (request.task) {
+    case 'init': {
+      const { relayerSdk, wasm, instanceConfig } = request.params;
+      progress('loading-sdk');
+      // Module workers cannot run classic scripts, so default to the npm build
+      const sdk = await preloadFhevm({ relayerSdk: { source: 'npm', ...relayerSdk }, wasm });
+      progress('creating-instance');
+      instance = await sdk.createInstance(instanceConfig);
+      return undefined;
+    }
+    case 'encrypt': {
+      if (!instance) throw new Error('FHEVM worker is not initialized');
+      const { contractAddress, userAddress, calls } = request.params;
+      const input = instance.createEncryptedInput(contractAddress, userAddress);
+      for (const [method, value] of calls) input[method](value);
+      progress('encrypting');
+      return input.encrypt();
+    }
+    case 'generateKeypair':
+      if (!instance) throw new Error('FHEVM worker is not initialized');
+      progress('generating-keypair');
+      return instance.generateKeypair();
+    case 'createEIP712':
+      if (!instance) throw new Error('FHEVM worker is not initialized');
+      return instance.createEIP712(...request.params.args);
+    case 'userDecrypt':
+    case 'publicDecrypt':
+      if (!instance) throw new Error('FHEVM worker is not initialized');
+      progress('decrypting');
+      return instance[request.task](...request.params.args);
+  }
+}
+
+scope.onmessage = async (event: MessageEvent<FhevmWorkerRequest>) => {
+  const request = event.data;
+  const progress = (stage: FhevmProgressEvent['stage']) =>
+    post({ id: request.id, kind: 'progress', event: { task: request.task, stage } });
+
+  try {
+    const result = await handle(request, progress);
+    progress('done');
+    post({ id: request.id, kind: 'result', result });
+  } catch (error: any) {
+    post({
+      id: request.id,
+      kind: 'error',
+      error: { code: isFhevmError(error) ? error.code : undefined, message: error?.message ?? String(error) },
+    });
+  }
+};
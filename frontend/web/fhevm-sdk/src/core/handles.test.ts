@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { formatHandle, isZeroHandle, parseHandle, validateHandle } from './handles.js';
+import { FHE_TYPE_IDS, FheType } from './fheTypes.js';
+import { HARDHAT_NETWORK, SEPOLIA_NETWORK } from './networks.js';
+
+function makeHandle(type: FheType, { chainId = SEPOLIA_NETWORK.chainId, index = 0xff, version = 0 } = {}) {
+  return ethers.hexlify(ethers.concat([
+    ethers.zeroPadValue('0x1234', 21),
+    new Uint8Array([index]),
+    ethers.toBeHex(chainId, 8),
+    new Uint8Array([FHE_TYPE_IDS[type], version]),
+  ]));
+}
+
+const ZERO_HANDLE = ethers.ZeroHash;
+
+describe('parseHandle', () => {
+  it('splits a computed handle into its components', () => {
+    const handle = makeHandle('euint32');
+
+    expect(parseHandle(handle)).toEqual({
+      handle,
+      hash: ethers.zeroPadValue('0x1234', 21),
+      index: null,
+      chainId: SEPOLIA_NETWORK.chainId,
+      type: 'euint32',
+      version: 0,
+    });
+  });
+
+  it('reads the input index of input handles', () => {
+    expect(parseHandle(makeHandle('ebool', { index: 2 })).index).toBe(2);
+  });
+
+  it('accepts bytes and mixed-case hex', () => {
+    const handle = makeHandle('eaddress');
+
+    expect(parseHandle(ethers.getBytes(handle)).handle).toBe(handle);
+    expect(parseHandle(handle.toUpperCase().replace('0X', '0x')).handle).toBe(handle);
+  });
+
+  it('rejects malformed handles', () => {
+    expect(() => parseHandle('0x1234')).toThrow(expect.objectContaining({ code: 'INVALID_HANDLE' }));
+    expect(() => parseHandle(`${makeHandle('euint8')}00`)).toThrow(expect.objectContaining({ code: 'INVALID_HANDLE' }));
+  });
+
+  it('rejects the zero handle of uninitialized values', () => {
+    expect(isZeroHandle(ZERO_HANDLE)).toBe(true);
+    expect(() => parseHandle(ZERO_HANDLE)).toThrow(/uninitialized/);
+  });
+
+  it('rejects unknown FHE type ids', () => {
+    const handle = `${makeHandle('euint8').slice(0, -4)}0100`;
+
+    expect(() => parseHandle(handle)).toThrow(expect.objectContaining({ code: 'INVALID_HANDLE' }));
+  });
+});
+
+describe('validateHandle', () => {
+  it('accepts handles of the network', () => {
+    expect(validateHandle(makeHandle('euint64'), SEPOLIA_NETWORK).type).toBe('euint64');
+    expect(validateHandle(makeHandle('euint64', { chainId: 31337 }), 31337).chainId).toBe(31337);
+  });
+
+  it('rejects handles created on another chain', () => {
+    const handle = makeHandle('euint64', { chainId: HARDHAT_NETWORK.chainId });
+
+    expect(() => validateHandle(handle, SEPOLIA_NETWORK)).toThrow(/created on chain 31337, not on network "sepolia"/);
+  });
+
+  it('rejects unsupported handle versions', () => {
+    expect(() => validateHandle(makeHandle('euint8', { version: 1 }), SEPOLIA_NETWORK)).toThrow(/unsupported version 1/);
+  });
+});
+
+describe('formatHandle', () => {
+  it('shortens handles with their type', () => {
+    const handle = makeHandle('euint32');
+
+    expect(formatHandle(handle)).toBe(`euint32 ${handle.slice(0, 6)}…${handle.slice(-4)}`);
+    expect(formatHandle(ZERO_HANDLE)).toBe('0x0000…0000 (uninitialized)');
+  });
+});
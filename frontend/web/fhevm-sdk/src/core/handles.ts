@@ -0,0 +1,108 @@
+/**
+ * Ciphertext Handles - Universal FHEVM SDK
+ * Parse, validate and display the 32-byte handles that reference FHE ciphertexts
+ *
+ * Layout (FHEVM v0.9):
+ *   bytes 0-20   hash of the ciphertext origin
+ *   byte  21     index in the encrypted input, 0xff for computed handles
+ *   bytes 22-29  host chain id (uint64, big endian)
+ *   byte  30     FHE type id
+ *   byte  31     handle version
+ */
+
+import { ethers } from 'ethers';
+import { FheType, fheTypeFromId, getHandleType } from './fheTypes.js';
+import { FhevmNetworkConfig } from './networks.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * Handle version produced by the current FHEVM coprocessor
+ */
+export const HANDLE_VERSION = 0;
+
+const COMPUTED_INDEX = 0xff;
+
+const HANDLE_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export interface ParsedHandle {
+  /** Lowercase hex handle */
+  handle: string;
+  /** 21-byte hash prefix */
+  hash: string;
+  /** Position in the encrypted input that produced it, null for handles computed on-chain */
+  index: number | null;
+  chainId: number;
+  type: FheType;
+  version: number;
+}
+
+function toHex(handle: string | Uint8Array) {
+  return typeof handle === 'string' ? handle : ethers.hexlify(handle);
+}
+
+/**
+ * Check the 0x + 32 bytes hex format, without looking at the content
+ */
+export function isHandle(value: unknown): value is string {
+  return typeof value === 'string' && HANDLE_PATTERN.test(value);
+}
+
+/**
+ * Uninitialized encrypted state variables read as the zero handle
+ */
+export function isZeroHandle(handle: string | Uint8Array): boolean {
+  const hex = toHex(handle);
+  return isHandle(hex) && BigInt(hex) === 0n;
+}
+
+/**
+ * Split a handle into its components
+ */
+export function parseHandle(handle: string | Uint8Array): ParsedHandle {
+  const hex = toHex(handle);
+  if (!isHandle(hex)) {
+    throw new ValidationError('INVALID_HANDLE', `Invalid ciphertext handle ${hex}. Expecting 0x followed by 32 bytes of hex.`);
+  }
+  if (isZeroHandle(hex)) {
+    throw new ValidationError('INVALID_HANDLE', 'Handle is uninitialized (zero) - the value was never set on-chain');
+  }
+
+  const bytes = ethers.getBytes(hex);
+  return {
+    handle: hex.toLowerCase(),
+    hash: ethers.hexlify(bytes.slice(0, 21)),
+    index: bytes[21] === COMPUTED_INDEX ? null : bytes[21],
+    chainId: Number(ethers.toBigInt(bytes.slice(22, 30))),
+    type: getHandleType(hex),
+    version: bytes[31],
+  };
+}
+
+/**
+ * Parse a handle and make sure it belongs to the given network (or chain id)
+ */
+export function validateHandle(handle: string | Uint8Array, network: FhevmNetworkConfig | number): ParsedHandle {
+  const parsed = parseHandle(handle);
+  const chainId = typeof network === 'number' ? network : network.chainId;
+
+  if (parsed.chainId !== chainId) {
+    const name = typeof network === 'number' ? `chain ${chainId}` : `network "${network.name}" (chain ${chainId})`;
+    throw new ValidationError('INVALID_HANDLE', `Handle ${formatHandle(parsed)} was created on chain ${parsed.chainId}, not on ${name}`);
+  }
+  if (parsed.version !== HANDLE_VERSION) {
+    throw new ValidationError('INVALID_HANDLE', `Handle ${formatHandle(parsed)} has unsupported version ${parsed.version}`);
+  }
+  return parsed;
+}
+
+/**
+ * Short label for UIs, e.g. "euint32 0x1a2b…9f00"
+ */
+export function formatHandle(handle: string | Uint8Array | ParsedHandle, chars = 4): string {
+  const hex = typeof handle === 'object' && 'handle' in handle ? handle.handle : toHex(handle);
+  const short = `${hex.slice(0, 2 + chars)}…${hex.slice(-chars)}`;
+  if (isZeroHandle(hex)) return `${short} (uninitialized)`;
+
+  const type = isHandle(hex) ? fheTypeFromId(parseInt(hex.slice(-4, -2), 16)) : undefined;
+  return type ? `${type} ${short}` : short;
+}
@@ -6,5 +6,25 @@
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
 export * from './contracts.js';
+export * from './networks.js';
+export * from './fheTypes.js';
+export * from './handles.js';
+export * from './encryption.js';
+export * from './sessions.js';
+export * from './decryption.js';
+export * from './acl.js';
+export * from './errors.js';
+export * from './reverts.js';
+export * from './transactions.js';
+export * from './contractEvents.js';
+export * from './abort.js';
+export * from './retry.js';
+export * from './events.js';
+export * from './eip1193.js';
+export * from './mock.js';
+export * from './logger.js';
+export * from './loader.js';
+export * from './wasm.js';
+export * from './worker.js';
 
 
@@ -0,0 +1,150 @@
+/**
+ * Relayer SDK Loader - Universal FHEVM SDK
+ * Loads the browser relayer bundle (npm or pinned CDN script) once per page
+ */
+
+import { RelayerError } from './errors.js';
+import { getLogger } from './logger.js';
+
+/**
+ * @zama-fhe/relayer-sdk version this SDK is built against
+ */
+export const RELAYER_SDK_VERSION = '0.3.0-5';
+
+export function relayerSdkCdnUrl(version = RELAYER_SDK_VERSION) {
+  return `https://cdn.zama.org/relayer-sdk-js/${version}/relayer-sdk-js.umd.cjs`;
+}
+
+export interface RelayerSdkLoaderOptions {
+  /**
+   * Where the bundle comes from:
+   * - 'global' - a bundle the app already put on window.relayerSDK
+   * - 'cdn' - inject a script tag for `url` (pinned to `version`)
+   * - 'npm' - import @zama-fhe/relayer-sdk/web through the app's bundler
+   * - 'auto' (default) - 'global' when present, 'cdn' otherwise
+   */
+  source?: 'auto' | 'global' | 'cdn' | 'npm';
+  /** Pinned bundle version, defaults to RELAYER_SDK_VERSION */
+  version?: string;
+  /** Script URL, defaults to the Zama CDN URL for `version` */
+  url?: string;
+  /** Subresource integrity hash for the script, e.g. 'sha384-...' */
+  integrity?: string;
+  /** Accept a bundle whose version differs from RELAYER_SDK_VERSION */
+  allowVersionMismatch?: boolean;
+}
+
+export interface RelayerSdk {
+  initSDK: (options?: any) => Promise<boolean>;
+  createInstance: (config: any) => Promise<any>;
+  SepoliaConfig: any;
+  version?: string;
+}
+
+const log = getLogger('loader');
+
+const loads = new Map<string, Promise<RelayerSdk>>();
+
+function getGlobalSdk(): RelayerSdk | undefined {
+  // Check for both uppercase and lowercase versions of RelayerSDK (window or worker scope)
+  return (globalThis as any).relayerSDK || (globalThis as any).RelayerSDK;
+}
+
+function checkVersion(version: string, options: RelayerSdkLoaderOptions) {
+  if (version !== RELAYER_SDK_VERSION && !options.allowVersionMismatch) {
+    throw new RelayerError(
+      'SDK_VERSION_MISMATCH',
+      `RelayerSDK ${version} was loaded but this SDK is built against ${RELAYER_SDK_VERSION}. Pin version ${RELAYER_SDK_VERSION} or set allowVersionMismatch.`
+    );
+  }
+}
+
+/**
+ * Make sure a loaded bundle exposes the API this SDK relies on
+ */
+function assertCompatible(sdk: RelayerSdk | undefined, options: RelayerSdkLoaderOptions): RelayerSdk {
+  if (!sdk || typeof sdk.initSDK !== 'function' || typeof sdk.createInstance !== 'function') {
+    throw new RelayerError('SDK_NOT_LOADED', 'RelayerSDK bundle did not expose initSDK/createInstance');
+  }
+  if (sdk.version) {
+    checkVersion(sdk.version, options);
+  }
+  // Gateway input verification was added in 0.2 - older bundles cannot talk to the current relayer
+  if (sdk.SepoliaConfig && !sdk.SepoliaConfig.verifyingContractAddressInputVerification && !options.allowVersionMismatch) {
+    throw new RelayerError(
+      'SDK_VERSION_MISMATCH',
+      `The loaded RelayerSDK bundle predates ${RELAYER_SDK_VERSION}. Load version ${RELAYER_SDK_VERSION}.`
+    );
+  }
+  return sdk;
+}
+
+function injectScript(url: string, integrity?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = url;
+    script.async = true;
+    if (integrity) {
+      script.integrity = integrity;
+      script.crossOrigin = 'anonymous';
+    }
+    script.onload = () => resolve();
+    script.onerror = () => {
+      script.remove();
+      reject(new RelayerError('SDK_NOT_LOADED', `Failed to load RelayerSDK from ${url}`));
+    };
+    document.head.appendChild(script);
+  });
+}
+
+async function loadFromNpm(options: RelayerSdkLoaderOptions): Promise<RelayerSdk> {
+  const [sdk, pkg] = await Promise.all([
+    import('@zama-fhe/relayer-sdk/web'),
+    import('@zama-fhe/relayer-sdk/package.json'),
+  ]);
+  checkVersion(pkg.version, options);
+  return assertCompatible(sdk as RelayerSdk, options);
+}
+
+async function loadFromCdn(url: string, options: RelayerSdkLoaderOptions): Promise<RelayerSdk> {
+  checkVersion(options.version ?? RELAYER_SDK_VERSION, options);
+  if (typeof document !== 'undefined') {
+    await injectScript(url, options.integrity);
+  } else if (typeof (globalThis as any).importScripts === 'function') {
+    // Classic Web Worker
+    (globalThis as any).importScripts(url);
+  } else {
+    throw new RelayerError('SDK_NOT_LOADED', 'RelayerSDK can only be loaded from a script in the browser. Use source \'npm\' in module workers.');
+  }
+  log.info('RelayerSDK loaded from', url);
+  return assertCompatible(getGlobalSdk(), options);
+}
+
+/**
+ * Load the relayer bundle - concurrent calls for the same source share one load
+ */
+export function loadRelayerSdk(options: RelayerSdkLoaderOptions = {}): Promise<RelayerSdk> {
+  const source = options.source ?? 'auto';
+  const globalSdk = getGlobalSdk();
+
+  if (source === 'global' || (source === 'auto' && globalSdk)) {
+    if (!globalSdk) {
+      return Promise.reject(new RelayerError('SDK_NOT_LOADED', 'RelayerSDK not found on window.relayerSDK'));
+    }
+    try {
+      return Promise.resolve(assertCompatible(globalSdk, options));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  const key = source === 'npm' ? 'npm' : options.url ?? relayerSdkCdnUrl(options.version);
+  let load = loads.get(key);
+  if (!load) {
+    load = source === 'npm' ? loadFromNpm(options) : loadFromCdn(key, options);
+    // Allow a retry after a failed load
+    load.catch(() => loads.delete(key));
+    loads.set(key, load);
+  }
+  return load;
+}
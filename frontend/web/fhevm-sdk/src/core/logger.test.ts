@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { configureLogger, getLogger, redact } from './logger.js';
+import { FhevmClient } from './fhevm.js';
+
+const HANDLE = `0x${'ab'.repeat(30)}0400`;
+const SIGNATURE = `0x${'12'.repeat(65)}`;
+const ADDRESS = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+
+function createSink() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+describe('redact', () => {
+  it('shortens handle-length hex and keeps addresses', () => {
+    expect(redact(`Decrypting ${HANDLE} for ${ADDRESS}`)).toBe(`Decrypting 0x…[32 bytes] for ${ADDRESS}`);
+    expect(redact(SIGNATURE)).toBe('0x…[65 bytes]');
+  });
+
+  it('redacts sensitive keys and bytes inside objects', () => {
+    expect(redact({ contractAddress: ADDRESS, handles: [HANDLE], privateKey: 'secret', inputProof: new Uint8Array(3) })).toEqual({
+      contractAddress: ADDRESS,
+      handles: ['0x…[32 bytes]'],
+      privateKey: '[redacted]',
+      inputProof: '[redacted]',
+    });
+    expect(redact({ data: new Uint8Array(4) })).toEqual({ data: '[4 bytes]' });
+  });
+});
+
+describe('getLogger', () => {
+  afterEach(() => {
+    configureLogger({ level: 'silent', sink: console, redact: true });
+  });
+
+  it('writes namespaced, redacted records at or above the level', () => {
+    const sink = createSink();
+    configureLogger({ level: 'info', sink });
+    const log = getLogger('test');
+
+    log.debug('hidden');
+    log.info('User decryption', { handle: HANDLE, contractAddress: ADDRESS });
+
+    expect(sink.debug).not.toHaveBeenCalled();
+    expect(sink.info).toHaveBeenCalledWith('[fhevm:test]', 'User decryption', { handle: '0x…[32 bytes]', contractAddress: ADDRESS });
+  });
+
+  it('writes raw values with redact: false', () => {
+    const sink = createSink();
+    configureLogger({ level: 'debug', sink, redact: false });
+
+    getLogger('test').debug(HANDLE);
+
+    expect(sink.debug).toHaveBeenCalledWith('[fhevm:test]', HANDLE);
+  });
+
+  it('applies overrides to that logger only', () => {
+    const globalSink = createSink();
+    const ownSink = createSink();
+    configureLogger({ level: 'warn', sink: globalSink });
+
+    getLogger('own', { level: 'debug', sink: ownSink }).debug('own record');
+    getLogger('shared').debug('shared record');
+    getLogger('shared').warn('shared warning');
+
+    expect(ownSink.debug).toHaveBeenCalledWith('[fhevm:own]', 'own record');
+    expect(globalSink.debug).not.toHaveBeenCalled();
+    expect(globalSink.warn).toHaveBeenCalledWith('[fhevm:shared]', 'shared warning');
+  });
+});
+
+describe('FhevmClient logger option', () => {
+  it('logs through its own logger without changing other clients', async () => {
+    const sink = createSink();
+    const logged = new FhevmClient({ logger: { level: 'debug', sink } });
+    const silent = new FhevmClient();
+
+    await expect(logged.createEncryptedInput(ADDRESS, ADDRESS, 1)).rejects.toMatchObject({ code: 'NOT_INITIALIZED' });
+    await expect(silent.createEncryptedInput(ADDRESS, ADDRESS, 2)).rejects.toMatchObject({ code: 'NOT_INITIALIZED' });
+
+    expect(sink.debug).toHaveBeenCalledTimes(1);
+    expect(sink.debug).toHaveBeenCalledWith('[fhevm:core]', 'Creating encrypted input', {
+      contractAddress: ADDRESS,
+      userAddress: ADDRESS,
+      type: 'euint32',
+    });
+    // The global settings are untouched
+    const globalSink = createSink();
+    configureLogger({ sink: globalSink });
+    getLogger('other').error('after');
+    expect(globalSink.error).not.toHaveBeenCalled();
+    configureLogger({ sink: console });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * FHEVM SDK Logger - Universal SDK
+ * Leveled, namespaced logging with redaction of handles, signatures and keys
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Where log records go - `console` fits, as do most logging libraries
+ */
+export interface LogSink {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export interface LoggerOptions {
+  /** Minimum level written to the sink, defaults to 'silent' */
+  level?: LogLevel;
+  /** Defaults to `console` */
+  sink?: LogSink;
+  /** Redact handles, signatures, proofs and keys, defaults to true */
+  redact?: boolean;
+}
+
+export interface FhevmLogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const SENSITIVE_KEYS = /^(privateKey|publicKey|signature|inputProof|proof|decryptionProof|keystore|password|mnemonic)$/i;
+
+// 32 bytes or more of hex: handles, signatures, keys, proofs
+const LONG_HEX = /0x[0-9a-fA-F]{64,}/g;
+
+let options: Required<LoggerOptions> = {
+  level: 'silent',
+  sink: console,
+  redact: true,
+};
+
+/**
+ * Configure SDK logging for every module - a FhevmClient's `logger` option only applies to that client
+ */
+export function configureLogger(next: LoggerOptions) {
+  options = { ...options, ...next };
+}
+
+/**
+ * Replace sensitive data in a log argument
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return value.replace(LONG_HEX, match => `0x…[${(match.length - 2) / 2} bytes]`);
+  }
+  if (value instanceof Uint8Array) {
+    return `[${value.length} bytes]`;
+  }
+  if (value instanceof Error || value === null || typeof value !== 'object' || depth > 4) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEYS.test(key) ? '[redacted]' : redact(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * Logger for a namespace - `overrides` give it its own level, sink or redaction
+ * on top of the configureLogger settings, without changing those
+ */
+export function getLogger(namespace: string, overrides?: LoggerOptions): FhevmLogger {
+  const write = (level: Exclude<LogLevel, 'silent'>, message: string, args: unknown[]) => {
+    const current = overrides ? { ...options, ...overrides } : options;
+    if (LEVELS[level] < LEVELS[current.level]) return;
+    const output = current.redact ? [redact(message), ...args.map(arg => redact(arg))] : [message, ...args];
+    current.sink[level](`[fhevm:${namespace}]`, ...output);
+  };
+
+  return {
+    debug: (message, ...args) => write('debug', message, args),
+    info: (message, ...args) => write('info', message, args),
+    warn: (message, ...args) => write('warn', message, args),
+    error: (message, ...args) => write('error', message, args),
+  };
+}
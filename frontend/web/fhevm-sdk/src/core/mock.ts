@@ -0,0 +1,84 @@
+/**
+ * FHEVM Mock Mode - Universal SDK
+ * Instance backed by the @fhevm/hardhat-plugin mock coprocessor of a local Hardhat node
+ */
+
+import { ethers } from 'ethers';
+import { FhevmNetworkConfig } from './networks.js';
+import { RelayerError } from './errors.js';
+
+/**
+ * JSON-RPC method exposed by @fhevm/hardhat-plugin with the deployed FHEVM host contracts
+ */
+const RELAYER_METADATA_METHOD = 'fhevm_relayer_metadata';
+
+export interface RelayerMetadata {
+  ACLAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+}
+
+/**
+ * Check whether an RPC endpoint is a Hardhat node running the FHEVM mock
+ */
+export async function isMockNode(rpcUrl: string): Promise<boolean> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  try {
+    const clientVersion: string = await provider.send('web3_clientVersion', []);
+    if (!clientVersion.toLowerCase().includes('hardhat')) return false;
+    await provider.send(RELAYER_METADATA_METHOD, []);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Addresses of the FHEVM host contracts deployed on a local Hardhat node
+ */
+export async function getRelayerMetadata(rpcUrl: string): Promise<RelayerMetadata> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  try {
+    return await provider.send(RELAYER_METADATA_METHOD, []);
+  } catch (error) {
+    throw new RelayerError(
+      'RELAYER_UNAVAILABLE',
+      `${rpcUrl} is not a Hardhat node with the FHEVM mock. Start it with \`npx hardhat node\` and @fhevm/hardhat-plugin.`,
+      error
+    );
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Create a mock instance that encrypts, user-decrypts and public-decrypts offline
+ */
+export async function createMockInstance(network: FhevmNetworkConfig, rpcUrl: string, metadata?: RelayerMetadata) {
+  let mockUtils: typeof import('@fhevm/mock-utils');
+  try {
+    // Use eval so bundlers neither analyze nor bundle the optional mock package into production builds
+    mockUtils = await eval('import("@fhevm/mock-utils")');
+  } catch (error) {
+    throw new RelayerError('SDK_NOT_LOADED', 'Mock mode requires the @fhevm/mock-utils package. Install it next to the SDK.', error);
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  metadata ??= await getRelayerMetadata(rpcUrl);
+
+  return mockUtils.MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption as `0x${string}`,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification as `0x${string}`,
+  }, {
+    // Signers and thresholds are read from the deployed mock contracts
+    inputVerifierProperties: {},
+    kmsVerifierProperties: {},
+  });
+}
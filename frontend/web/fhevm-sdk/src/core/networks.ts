@@ -0,0 +1,111 @@
+/**
+ * FHEVM Network Registry - Universal SDK
+ * Named network presets used to configure the relayer instance
+ */
+
+import { ValidationError, WalletError } from './errors.js';
+
+export interface FhevmNetworkConfig {
+  name: string;
+  /** FHEVM host chain id */
+  chainId: number;
+  /** Gateway chain id */
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** DECRYPTION_ADDRESS on the gateway chain */
+  verifyingContractAddressDecryption: string;
+  /** INPUT_VERIFICATION_ADDRESS on the gateway chain */
+  verifyingContractAddressInputVerification: string;
+  /** Relayer URL - not needed for local mock networks */
+  relayerUrl?: string;
+  /** RPC endpoints for the host chain, first one is used by default */
+  rpcUrls: string[];
+}
+
+export const SEPOLIA_NETWORK: FhevmNetworkConfig = {
+  name: 'sepolia',
+  chainId: 11155111,
+  gatewayChainId: 10901,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  relayerUrl: 'https://relayer.testnet.zama.org',
+  rpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com'],
+};
+
+export const HARDHAT_NETWORK: FhevmNetworkConfig = {
+  name: 'hardhat',
+  chainId: 31337,
+  gatewayChainId: 55815,
+  aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  rpcUrls: ['http://127.0.0.1:8545'],
+};
+
+const networks = new Map<string, FhevmNetworkConfig>([
+  [SEPOLIA_NETWORK.name, SEPOLIA_NETWORK],
+  [HARDHAT_NETWORK.name, HARDHAT_NETWORK],
+]);
+
+/**
+ * Register a custom network preset (or override a built-in one)
+ */
+export function registerNetwork(config: FhevmNetworkConfig) {
+  networks.set(config.name, config);
+}
+
+export function getRegisteredNetworks(): FhevmNetworkConfig[] {
+  return Array.from(networks.values());
+}
+
+export function findNetworkByChainId(chainId: number): FhevmNetworkConfig | undefined {
+  return getRegisteredNetworks().find(network => network.chainId === chainId);
+}
+
+/**
+ * Resolve a network name or an inline config to a network preset
+ */
+export function resolveNetwork(network: string | FhevmNetworkConfig = SEPOLIA_NETWORK.name): FhevmNetworkConfig {
+  if (typeof network !== 'string') return network;
+
+  const config = networks.get(network);
+  if (!config) {
+    throw new ValidationError('UNKNOWN_NETWORK', `Unknown FHEVM network "${network}". Registered networks: ${Array.from(networks.keys()).join(', ')}`);
+  }
+  return config;
+}
+
+/**
+ * Build the relayer `createInstance` config for a network preset
+ */
+export function toInstanceConfig(network: FhevmNetworkConfig, provider: any) {
+  return {
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    relayerUrl: network.relayerUrl,
+    network: provider,
+  };
+}
+
+/**
+ * Make sure the provider is connected to the chain the network preset targets
+ */
+export async function assertChainId(provider: any, network: FhevmNetworkConfig) {
+  const chainIdHex = await provider.request({ method: 'eth_chainId' });
+  const chainId = Number(chainIdHex);
+  if (chainId !== network.chainId) {
+    throw new WalletError('WRONG_CHAIN', `Wallet is connected to chain ${chainId} but FHEVM network "${network.name}" expects chain ${network.chainId}`);
+  }
+}
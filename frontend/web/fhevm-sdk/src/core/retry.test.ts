@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableError, resolveRetryPolicy, withRetry } from './retry.js';
+import { FhevmError, RelayerError } from './errors.js';
+
+const unavailable = () => new RelayerError('RELAYER_UNAVAILABLE', 'Relayer service is temporarily unavailable');
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(unavailable())
+      .mockRejectedValueOnce(unavailable())
+      .mockResolvedValue('ok');
+    const onFailure = vi.fn();
+
+    const result = withRetry(operation, { initialDelayMs: 100 }, undefined, onFailure);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onFailure.mock.calls.map(([, attempt, willRetry]) => [attempt, willRetry])).toEqual([[1, true], [2, true]]);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const operation = vi.fn().mockRejectedValue(unavailable());
+
+    const result = withRetry(operation, { maxAttempts: 2, initialDelayMs: 10 });
+    const assertion = expect(result).rejects.toMatchObject({ code: 'RELAYER_UNAVAILABLE' });
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const operation = vi.fn().mockRejectedValue(new FhevmError('ACL_DENIED', 'Not allowed'));
+
+    await expect(withRetry(operation)).rejects.toMatchObject({ code: 'ACL_DENIED' });
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out a hanging attempt and retries it', async () => {
+    const operation = vi.fn()
+      .mockReturnValueOnce(new Promise(() => {}))
+      .mockResolvedValue('ok');
+
+    const result = withRetry(operation, { timeoutMs: 1000, initialDelayMs: 10 });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(10);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports RELAYER_TIMEOUT when the last attempt hangs', async () => {
+    const result = withRetry(() => new Promise(() => {}), { maxAttempts: 1, timeoutMs: 500 });
+    const assertion = expect(result).rejects.toMatchObject({ code: 'RELAYER_TIMEOUT' });
+    await vi.advanceTimersByTimeAsync(500);
+
+    await assertion;
+  });
+
+  it('stops waiting for the backoff when aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(unavailable());
+
+    const result = withRetry(operation, { initialDelayMs: 1000 }, controller.signal);
+    const assertion = expect(result).rejects.toMatchObject({ code: 'ABORTED' });
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('doubles the delay up to maxDelayMs', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const policy = resolveRetryPolicy({ initialDelayMs: 500, maxDelayMs: 3000 });
+
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(attempt, policy))).toEqual([500, 1000, 2000, 3000]);
+  });
+
+  it('randomizes up to the jitter fraction of the delay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(getRetryDelay(1, resolveRetryPolicy({ initialDelayMs: 1000, jitter: 0.5 }))).toBe(500);
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('merges policies from least to most specific', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5, timeoutMs: 10 }, { timeoutMs: 20 })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: 5,
+      timeoutMs: 20,
+    });
+  });
+
+  it('turns retries off with false', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 }, false).maxAttempts).toBe(1);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries transient relayer failures only', () => {
+    expect(isRetryableError(unavailable())).toBe(true);
+    expect(isRetryableError(new FhevmError('DECRYPTION_FAILED', 'HTTP 503 Service Unavailable'))).toBe(true);
+    expect(isRetryableError(new FhevmError('UNKNOWN', 'Too Many Requests'))).toBe(true);
+    expect(isRetryableError(new FhevmError('DECRYPTION_FAILED', 'HTTP 400 Bad Request'))).toBe(false);
+    expect(isRetryableError(new FhevmError('USER_REJECTED_SIGNATURE', 'timed out'))).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * FHEVM Retry Policy - Universal SDK
+ * Attempts, exponential backoff with jitter and per-attempt timeouts for relayer calls
+ */
+
+import { FhevmError, RelayerError, toFhevmError } from './errors.js';
+import { throwIfAborted, withAbort } from './abort.js';
+import { getLogger } from './logger.js';
+
+export interface RetryPolicy {
+  /** Attempts including the first one, defaults to 3 - 1 disables retries */
+  maxAttempts?: number;
+  /** Delay before the first retry, defaults to 500 ms */
+  initialDelayMs?: number;
+  /** Upper bound of a single delay, defaults to 8000 ms */
+  maxDelayMs?: number;
+  /** Delay multiplier between retries, defaults to 2 */
+  backoffFactor?: number;
+  /** Fraction of each delay that is randomized (0 - 1), defaults to 0.5 */
+  jitter?: number;
+  /** Time limit of one attempt, defaults to 60000 ms - 0 disables it */
+  timeoutMs?: number;
+  /** Which failures are worth another attempt, defaults to isRetryableError */
+  isRetryable?: (error: FhevmError) => boolean;
+}
+
+const log = getLogger('retry');
+
+/**
+ * Transient relayer failures: network errors, timeouts, rate limiting and 5xx responses
+ */
+export function isRetryableError(error: FhevmError): boolean {
+  if (error.code === 'RELAYER_UNAVAILABLE' || error.code === 'RELAYER_TIMEOUT') return true;
+  if (error.code !== 'UNKNOWN' && error.code !== 'ENCRYPTION_FAILED' && error.code !== 'DECRYPTION_FAILED') return false;
+  return /\b(429|502|503|504)\b|too many requests|timed? ?out|ECONNRESET|ETIMEDOUT/i.test(error.message);
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  backoffFactor: 2,
+  jitter: 0.5,
+  timeoutMs: 60000,
+  isRetryable: isRetryableError,
+};
+
+/**
+ * Merge policies from least to most specific - `false` turns retries off
+ */
+export function resolveRetryPolicy(...policies: Array<RetryPolicy | false | undefined>): Required<RetryPolicy> {
+  let resolved = DEFAULT_RETRY_POLICY;
+  for (const policy of policies) {
+    if (policy === false) {
+      resolved = { ...resolved, maxAttempts: 1 };
+    } else if (policy) {
+      resolved = { ...resolved, ...policy };
+    }
+  }
+  return resolved;
+}
+
+export function getRetryDelay(attempt: number, policy: Required<RetryPolicy>): number {
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffFactor ** (attempt - 1));
+  return Math.round(base - Math.random() * base * policy.jitter);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  if (!timeoutMs || timeoutMs <= 0) return promise;
+
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new RelayerError('RELAYER_TIMEOUT', `Relayer did not respond within ${timeoutMs} ms`)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return withAbort(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * Run a relayer call under a retry policy
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = {},
+  signal?: AbortSignal,
+  onFailure?: (error: FhevmError, attempt: number, willRetry: boolean) => void
+): Promise<T> {
+  const resolved = resolveRetryPolicy(policy);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await withAbort(withTimeout(operation(), resolved.timeoutMs), signal);
+    } catch (error) {
+      const fhevmError = toFhevmError(error);
+      if (fhevmError.code === 'ABORTED') throw error;
+
+      const willRetry = attempt < resolved.maxAttempts && resolved.isRetryable(fhevmError);
+      onFailure?.(fhevmError, attempt, willRetry);
+      if (!willRetry) throw error;
+
+      const delay = getRetryDelay(attempt, resolved);
+      log.warn(`Attempt ${attempt} of ${resolved.maxAttempts} failed, retrying in ${delay} ms`, fhevmError.message);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { decodeRevert, decodeRevertData, isRevertError } from './reverts.js';
+
+const iface = new ethers.Interface([
+  'error DocumentExists(string documentId)',
+  'error NotOwner()',
+]);
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+function errorData(reason: string) {
+  return ethers.concat(['0x08c379a0', coder.encode(['string'], [reason])]);
+}
+
+function panicData(code: number) {
+  return ethers.concat(['0x4e487b71', coder.encode(['uint256'], [code])]);
+}
+
+describe('decodeRevertData', () => {
+  it('decodes require reasons', () => {
+    expect(decodeRevertData(errorData('Document already exists'))).toEqual({
+      kind: 'require',
+      reason: 'Document already exists',
+      message: 'Document already exists',
+    });
+  });
+
+  it('decodes known panic codes', () => {
+    expect(decodeRevertData(panicData(0x11))).toEqual({
+      kind: 'panic',
+      code: 0x11,
+      reason: 'arithmetic overflow or underflow',
+      message: 'Panic: arithmetic overflow or underflow',
+    });
+  });
+
+  it('reports unknown panic codes in hex', () => {
+    expect(decodeRevertData(panicData(0x99))).toMatchObject({ kind: 'panic', reason: 'panic code 0x99' });
+  });
+
+  it('decodes custom errors with the contract interface', () => {
+    const data = iface.encodeErrorResult('DocumentExists', ['doc-1']);
+
+    expect(decodeRevertData(data, iface)).toEqual({
+      kind: 'custom',
+      name: 'DocumentExists',
+      signature: 'DocumentExists(string)',
+      args: { documentId: 'doc-1' },
+      message: 'DocumentExists(doc-1)',
+    });
+  });
+
+  it('formats custom errors without arguments by name', () => {
+    expect(decodeRevertData(iface.encodeErrorResult('NotOwner', []), iface)).toMatchObject({ kind: 'custom', message: 'NotOwner' });
+  });
+
+  it('leaves custom errors unknown without the interface', () => {
+    const data = iface.encodeErrorResult('NotOwner', []);
+
+    expect(decodeRevertData(data)).toMatchObject({ kind: 'unknown', data });
+  });
+
+  it('treats empty data as a revert without a reason', () => {
+    expect(decodeRevertData(null)).toMatchObject({ kind: 'unknown', message: 'Transaction reverted without a reason' });
+    expect(decodeRevertData('0x')).toMatchObject({ kind: 'unknown', data: '0x' });
+  });
+
+  it('reports malformed data as unknown', () => {
+    expect(decodeRevertData('0x08c379a0deadbeef')).toMatchObject({ kind: 'unknown' });
+  });
+});
+
+describe('decodeRevert', () => {
+  it('finds revert data nested in wallet errors', () => {
+    const error = { code: -32603, error: { data: { data: errorData('Not allowed') } } };
+
+    expect(decodeRevert(error)).toMatchObject({ kind: 'require', reason: 'Not allowed' });
+  });
+
+  it('reads the reason from the message when the node returns no data', () => {
+    expect(decodeRevert(new Error('execution reverted: "Value too large"'))).toMatchObject({ kind: 'require', reason: 'Value too large' });
+  });
+
+  it('ignores errors that are not reverts', () => {
+    const error = new Error('network timeout');
+
+    expect(isRevertError(error)).toBe(false);
+    expect(decodeRevert(error)).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * FHEVM Revert Decoding - Universal SDK
+ * Turn revert data from calls, simulations and receipts into typed reasons
+ */
+
+import { ethers } from 'ethers';
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+};
+
+export type DecodedRevert =
+  /** `require(condition, "reason")` or `revert("reason")` */
+  | { kind: 'require'; reason: string; message: string }
+  /** Solidity panic, e.g. overflow or out-of-bounds access */
+  | { kind: 'panic'; code: number; reason: string; message: string }
+  /** Custom error declared in the contract ABI */
+  | { kind: 'custom'; name: string; signature: string; args: Record<string, any>; message: string }
+  /** Reverted without data, or with data the ABI does not describe */
+  | { kind: 'unknown'; data: string | null; message: string };
+
+/**
+ * Find the revert data in the various shapes ethers, wallets and RPC nodes report it
+ */
+function findRevertData(error: any): string | null {
+  const candidates = [error?.data, error?.error?.data, error?.info?.error?.data, error?.error?.error?.data];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate)) return candidate;
+    if (typeof candidate?.data === 'string' && ethers.isHexString(candidate.data)) return candidate.data;
+  }
+  return null;
+}
+
+/**
+ * Whether an error is a contract revert, as opposed to a network, wallet or RPC failure
+ */
+export function isRevertError(error: unknown): boolean {
+  const err = error as any;
+  if (err?.code === 'CALL_EXCEPTION') return true;
+  if ([err?.message, err?.error?.message].some(message => /execution reverted/i.test(message ?? ''))) return true;
+  // Other errors carry hex `data` too (signatures, RPC payloads) - only Error(string) and Panic(uint256) data mark a revert
+  const selector = findRevertData(err)?.slice(0, 10).toLowerCase();
+  return selector === ERROR_SELECTOR || selector === PANIC_SELECTOR;
+}
+
+/**
+ * Decode raw revert data using the built-in Error/Panic types and the contract's custom errors
+ */
+export function decodeRevertData(data: string | null, iface?: ethers.Interface): DecodedRevert {
+  if (!data || data === '0x') {
+    return { kind: 'unknown', data, message: 'Transaction reverted without a reason' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [reason] = coder.decode(['string'], ethers.dataSlice(data, 4));
+      return { kind: 'require', reason, message: reason };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4));
+      const reason = PANIC_REASONS[Number(code)] ?? `panic code 0x${code.toString(16)}`;
+      return { kind: 'panic', code: Number(code), reason, message: `Panic: ${reason}` };
+    }
+
+    const parsed = iface?.parseError(data);
+    if (parsed) {
+      const args: Record<string, any> = {};
+      parsed.fragment.inputs.forEach((input, index) => {
+        args[input.name || String(index)] = parsed.args[index];
+      });
+      const formatted = parsed.fragment.inputs.length > 0 ? `(${Array.from(parsed.args).map(String).join(', ')})` : '';
+      return { kind: 'custom', name: parsed.name, signature: parsed.signature, args, message: `${parsed.name}${formatted}` };
+    }
+  } catch {
+    // Malformed data - reported as unknown below
+  }
+  return { kind: 'unknown', data, message: `Transaction reverted with unrecognized data ${data.slice(0, 10)}` };
+}
+
+/**
+ * Decoded revert reason of a thrown error, null when the error is not a revert
+ */
+export function decodeRevert(error: unknown, iface?: ethers.Interface): DecodedRevert | null {
+  if (!isRevertError(error)) return null;
+
+  const err = error as any;
+  const data = findRevertData(err);
+  if (data) return decodeRevertData(data, iface);
+
+  // Some nodes only return the reason inside the message
+  const reason = err?.reason ?? (err?.message as string | undefined)?.match(/execution reverted:?\s*"?([^"]+)"?/i)?.[1];
+  return reason
+    ? { kind: 'require', reason, message: reason }
+    : decodeRevertData(null);
+}
@@ -0,0 +1,193 @@
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DecryptionSession,
+  DecryptionSessionManager,
+  IndexedDbSessionStore,
+  MAX_SESSION_CONTRACTS,
+  isSessionExpired,
+} from './sessions.js';
+import { FhevmEventEmitter } from './events.js';
+
+const USER = '0x1111111111111111111111111111111111111111';
+const CONTRACT_A = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const CONTRACT_B = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const CHAIN_ID = 11155111;
+
+let dbCount = 0;
+
+function createFhe() {
+  let keypairs = 0;
+  return {
+    generateKeypair: vi.fn(async () => {
+      keypairs++;
+      return { publicKey: `public-${keypairs}`, privateKey: `private-${keypairs}` };
+    }),
+    createEIP712: vi.fn((publicKey: string, contractAddresses: string[], startTimestamp: string, durationDays: string) => ({
+      domain: { name: 'Decryption' },
+      types: { UserDecryptRequestVerification: [] },
+      message: { publicKey, contractAddresses, startTimestamp, durationDays },
+    })),
+  };
+}
+
+function createSigner(address = USER) {
+  let signatures = 0;
+  return {
+    getAddress: vi.fn(async () => address),
+    signTypedData: vi.fn(async () => {
+      // Leave room for concurrent callers to interleave
+      await new Promise(resolve => setTimeout(resolve, 5));
+      signatures++;
+      return `0xsignature${signatures}`;
+    }),
+  };
+}
+
+function createManager(options = {}) {
+  const store = new IndexedDbSessionStore(`fhevm-sdk-test-${dbCount++}`);
+  return { store, manager: new DecryptionSessionManager(store, options) };
+}
+
+describe('DecryptionSessionManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs a session once and reuses it from IndexedDB', async () => {
+    const { store, manager } = createManager();
+    const fhe = createFhe();
+    const signer = createSigner();
+
+    const first = await manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID);
+    const second = await manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID);
+
+    expect(second).toEqual(first);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(await store.get(`${CHAIN_ID}:${USER}`)).toEqual(first);
+  });
+
+  it('asks for one signature when called concurrently', async () => {
+    const { manager } = createManager();
+    const fhe = createFhe();
+    const signer = createSigner();
+
+    const sessions = await Promise.all([
+      manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID),
+      manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID),
+      manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID),
+    ]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(fhe.generateKeypair).toHaveBeenCalledTimes(1);
+    expect(sessions[1]).toEqual(sessions[0]);
+    expect(sessions[2]).toEqual(sessions[0]);
+  });
+
+  it('lets a concurrent caller retry after the first signature is rejected', async () => {
+    const { manager } = createManager();
+    const fhe = createFhe();
+    const signer = createSigner();
+    signer.signTypedData.mockRejectedValueOnce(new Error('User rejected'));
+
+    const [first, second] = await Promise.allSettled([
+      manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID),
+      manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID),
+    ]);
+
+    expect(first.status).toBe('rejected');
+    expect(second.status).toBe('fulfilled');
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('extends a session to new contracts with the same keypair', async () => {
+    const { manager } = createManager();
+    const fhe = createFhe();
+    const signer = createSigner();
+
+    const first = await manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID);
+    const extended = await manager.getSession(fhe, signer, [CONTRACT_B], CHAIN_ID);
+
+    expect(extended.contractAddresses).toEqual([CONTRACT_A, CONTRACT_B]);
+    expect(extended.publicKey).toBe(first.publicKey);
+    expect(extended.signature).not.toBe(first.signature);
+    expect(fhe.generateKeypair).toHaveBeenCalledTimes(1);
+  });
+
+  it('renews a session about to expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    const { manager } = createManager({ durationDays: 1 });
+    const fhe = createFhe();
+    const signer = createSigner();
+
+    const first = await manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID);
+    vi.setSystemTime(new Date('2025-01-01T23:59:30Z'));
+    const renewed = await manager.getSession(fhe, signer, [CONTRACT_A], CHAIN_ID);
+
+    expect(renewed.startTimestamp).toBeGreaterThan(first.startTimestamp);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects sessions over the contract limit', async () => {
+    const { manager } = createManager();
+    const contracts = Array.from({ length: MAX_SESSION_CONTRACTS + 1 }, (_, index) =>
+      `0x${(index + 1).toString(16).padStart(40, '0')}`
+    );
+
+    await expect(manager.getSession(createFhe(), createSigner(), contracts, CHAIN_ID)).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+
+  it('splits more than MAX_SESSION_CONTRACTS contracts into one session per group', async () => {
+    const { store, manager } = createManager();
+    const fhe = createFhe();
+    const signer = createSigner();
+    const contracts = Array.from({ length: MAX_SESSION_CONTRACTS + 1 }, (_, index) =>
+      `0x${(index + 1).toString(16).padStart(40, '0')}`
+    );
+
+    const sessions = await manager.getSessions(fhe, signer, contracts, CHAIN_ID);
+
+    expect(sessions.map(session => session.contractAddresses)).toEqual([contracts.slice(0, MAX_SESSION_CONTRACTS), contracts.slice(MAX_SESSION_CONTRACTS)]);
+    expect(sessions.map(session => session.id)).toEqual([`${CHAIN_ID}:${USER}`, `${CHAIN_ID}:${USER}:1`]);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+
+    // Both authorizations are reused, and revoked together
+    expect(await manager.getSessions(fhe, signer, contracts, CHAIN_ID)).toEqual(sessions);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+    await manager.revoke(USER, CHAIN_ID);
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('emits signature:requested before signing', async () => {
+    const events = new FhevmEventEmitter();
+    const listener = vi.fn();
+    events.on('signature:requested', listener);
+    const { manager } = createManager({ events });
+
+    await manager.getSession(createFhe(), createSigner(), [CONTRACT_A], CHAIN_ID);
+
+    expect(listener).toHaveBeenCalledWith({ userAddress: USER, contractAddresses: [CONTRACT_A] });
+  });
+
+  it('revokes the sessions of an account', async () => {
+    const { store, manager } = createManager();
+    const signer = createSigner();
+    await manager.getSession(createFhe(), signer, [CONTRACT_A], CHAIN_ID);
+    await manager.getSession(createFhe(), signer, [CONTRACT_A], 31337);
+
+    await manager.revoke(USER.toUpperCase().replace('0X', '0x'));
+
+    expect(await store.getAll()).toEqual([]);
+  });
+});
+
+describe('isSessionExpired', () => {
+  it('honours the renewal margin', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const session = { startTimestamp: now - 86400 + 30, durationDays: 1 } as DecryptionSession;
+
+    expect(isSessionExpired(session)).toBe(false);
+    expect(isSessionExpired(session, 60)).toBe(true);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * FHEVM Decryption Sessions - Universal SDK
+ * Keeps the user-decryption keypair and EIP-712 signature around until they expire,
+ * so the wallet is asked to sign once per session instead of once per decryption
+ */
+
+import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { ValidationError } from './errors.js';
+import type { FhevmEventEmitter } from './events.js';
+
+export interface DecryptionSession {
+  /** `${chainId}:${userAddress}` (lowercased), with `:${group}` appended for the groups after the first */
+  id: string;
+  chainId: number;
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  /** Unix timestamp in seconds */
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface SessionStore {
+  get(id: string): Promise<DecryptionSession | undefined>;
+  put(session: DecryptionSession): Promise<void>;
+  delete(id: string): Promise<void>;
+  getAll(): Promise<DecryptionSession[]>;
+  clear(): Promise<void>;
+}
+
+interface SessionDB extends DBSchema {
+  sessions: {
+    key: string;
+    value: DecryptionSession;
+  };
+}
+
+/**
+ * IndexedDB-backed session store (browser)
+ */
+export class IndexedDbSessionStore implements SessionStore {
+  private db: Promise<IDBPDatabase<SessionDB>> | null = null;
+  private dbName: string;
+
+  constructor(dbName = 'fhevm-sdk') {
+    this.dbName = dbName;
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = openDB<SessionDB>(this.dbName, 1, {
+        upgrade(db) {
+          db.createObjectStore('sessions', { keyPath: 'id' });
+        },
+      });
+    }
+    return this.db;
+  }
+
+  async get(id: string) {
+    return (await this.open()).get('sessions', id);
+  }
+
+  async put(session: DecryptionSession) {
+    await (await this.open()).put('sessions', session);
+  }
+
+  async delete(id: string) {
+    await (await this.open()).delete('sessions', id);
+  }
+
+  async getAll() {
+    return (await this.open()).getAll('sessions');
+  }
+
+  async clear() {
+    await (await this.open()).clear('sessions');
+  }
+}
+
+/**
+ * In-memory session store (Node.js, or browsers without IndexedDB)
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, DecryptionSession>();
+
+  async get(id: string) {
+    return this.sessions.get(id);
+  }
+
+  async put(session: DecryptionSession) {
+    this.sessions.set(session.id, session);
+  }
+
+  async delete(id: string) {
+    this.sessions.delete(id);
+  }
+
+  async getAll() {
+    return Array.from(this.sessions.values());
+  }
+
+  async clear() {
+    this.sessions.clear();
+  }
+}
+
+export function createDefaultSessionStore(): SessionStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbSessionStore() : new MemorySessionStore();
+}
+
+export interface DecryptionSessionOptions {
+  /** Session lifetime requested in the EIP-712 authorization, defaults to 10 days */
+  durationDays?: number;
+  /** Sessions expiring within this many seconds are renewed, defaults to 60 */
+  renewBeforeSeconds?: number;
+  /** Receives `signature:requested` before the wallet is asked to sign */
+  events?: FhevmEventEmitter;
+}
+
+/**
+ * Relayer limit on contract addresses per user-decryption authorization
+ */
+export const MAX_SESSION_CONTRACTS = 10;
+
+function sessionId(chainId: number, userAddress: string, group = 0) {
+  const id = `${chainId}:${userAddress.toLowerCase()}`;
+  return group === 0 ? id : `${id}:${group}`;
+}
+
+export function isSessionExpired(session: DecryptionSession, marginSeconds = 0) {
+  const expiresAt = session.startTimestamp + session.durationDays * 86400;
+  return Math.floor(Date.now() / 1000) + marginSeconds >= expiresAt;
+}
+
+export class DecryptionSessionManager {
+  private store: SessionStore;
+  private durationDays: number;
+  private renewBeforeSeconds: number;
+  private events?: FhevmEventEmitter;
+  /** Latest getSession per account - callers wait for it so the wallet is asked once */
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(store: SessionStore = createDefaultSessionStore(), options: DecryptionSessionOptions = {}) {
+    this.store = store;
+    this.durationDays = options.durationDays ?? 10;
+    this.renewBeforeSeconds = options.renewBeforeSeconds ?? 60;
+    this.events = options.events;
+  }
+
+  /**
+   * Return a valid session for the signer covering every contract, signing a new one if needed
+   *
+   * The keypair is kept when the session is renewed or extended to more contracts,
+   * only the EIP-712 signature is requested again. Concurrent calls for the same account
+   * run one after the other, so the ones covered by the first signature reuse it.
+   */
+  async getSession(fhe: any, signer: any, contractAddresses: string[], chainId: number): Promise<DecryptionSession> {
+    const userAddress = await signer.getAddress();
+    const id = sessionId(chainId, userAddress);
+    return this.serialize(id, () => this.resolveSession(fhe, signer, userAddress, id, contractAddresses, chainId));
+  }
+
+  /**
+   * Like getSession for any number of contracts - returns one session per group of at most
+   * MAX_SESSION_CONTRACTS contracts, in order, each with its own signature
+   */
+  async getSessions(fhe: any, signer: any, contractAddresses: string[], chainId: number): Promise<DecryptionSession[]> {
+    const userAddress = await signer.getAddress();
+    const contracts = Array.from(new Set(contractAddresses));
+
+    return this.serialize(sessionId(chainId, userAddress), async () => {
+      const sessions: DecryptionSession[] = [];
+      for (let start = 0; start < contracts.length; start += MAX_SESSION_CONTRACTS) {
+        const group = start / MAX_SESSION_CONTRACTS;
+        const id = sessionId(chainId, userAddress, group);
+        const groupContracts = contracts.slice(start, start + MAX_SESSION_CONTRACTS);
+        sessions.push(await this.resolveSession(fhe, signer, userAddress, id, groupContracts, chainId));
+      }
+      return sessions;
+    });
+  }
+
+  /**
+   * Run after the account's previous request, so the wallet is asked once for the same contracts
+   */
+  private async serialize<T>(id: string, resolve: () => Promise<T>): Promise<T> {
+    const previous = this.inFlight.get(id);
+    const request = (previous ? previous.catch(() => undefined) : Promise.resolve()).then(resolve);
+    this.inFlight.set(id, request);
+    try {
+      return await request;
+    } finally {
+      if (this.inFlight.get(id) === request) this.inFlight.delete(id);
+    }
+  }
+
+  private async resolveSession(
+    fhe: any,
+    signer: any,
+    userAddress: string,
+    id: string,
+    contractAddresses: string[],
+    chainId: number
+  ): Promise<DecryptionSession> {
+    const existing = await this.store.get(id);
+
+    const known = new Set(existing?.contractAddresses.map(address => address.toLowerCase()) ?? []);
+    const coversContracts = contractAddresses.every(address => known.has(address.toLowerCase()));
+
+    if (existing && coversContracts && !isSessionExpired(existing, this.renewBeforeSeconds)) {
+      return existing;
+    }
+
+    const keypair = existing
+      ? { publicKey: existing.publicKey, privateKey: existing.privateKey }
+      : await fhe.generateKeypair();
+
+    let sessionContracts = Array.from(new Set(contractAddresses));
+    if (existing && !isSessionExpired(existing)) {
+      const merged = Array.from(new Set([...existing.contractAddresses, ...contractAddresses]));
+      if (merged.length <= MAX_SESSION_CONTRACTS) sessionContracts = merged;
+    }
+    if (sessionContracts.length > MAX_SESSION_CONTRACTS) {
+      throw new ValidationError('INVALID_INPUT', `A decryption session can cover at most ${MAX_SESSION_CONTRACTS} contracts, got ${sessionContracts.length}`);
+    }
+
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    // Async when the instance runs in a worker
+    const eip712 = await fhe.createEIP712(
+      keypair.publicKey,
+      sessionContracts,
+      startTimestamp.toString(),
+      this.durationDays.toString()
+    );
+
+    this.events?.emit('signature:requested', { userAddress, contractAddresses: sessionContracts });
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    const session: DecryptionSession = {
+      id,
+      chainId,
+      userAddress,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature,
+      contractAddresses: sessionContracts,
+      startTimestamp,
+      durationDays: this.durationDays,
+    };
+    await this.store.put(session);
+    return session;
+  }
+
+  /**
+   * Revoke the sessions of an account, on every chain unless one is given
+   */
+  async revoke(userAddress: string, chainId?: number) {
+    const sessions = await this.store.getAll();
+    for (const session of sessions) {
+      if (session.userAddress.toLowerCase() === userAddress.toLowerCase() && (chainId === undefined || session.chainId === chainId)) {
+        await this.store.delete(session.id);
+      }
+    }
+  }
+
+  async clear() {
+    await this.store.clear();
+  }
+}
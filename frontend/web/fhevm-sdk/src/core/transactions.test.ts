@@ -0,0 +1,295 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  LocalStoragePendingTransactionStore,
+  MemoryPendingTransactionStore,
+  PendingTransaction,
+  TransactionStatus,
+  TransactionTracker,
+} from './transactions.js';
+import { TransactionRevertedError } from './errors.js';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const CONTRACT_ADDRESS = '0xcccccccccccccccccccccccccccccccccccccccc';
+const DATA = '0x12345678';
+const START_BLOCK = 10;
+
+const txHash = (n: number) => ethers.zeroPadValue(ethers.toBeHex(n), 32);
+
+function receipt(hash: string, blockNumber = START_BLOCK + 1, status = 1) {
+  return { hash, blockNumber, status } as unknown as ethers.TransactionReceipt;
+}
+
+function replacedError(reason: string, replacement: Partial<ethers.TransactionResponse>) {
+  return Object.assign(new Error('transaction was replaced'), {
+    code: 'TRANSACTION_REPLACED',
+    reason,
+    replacement,
+    receipt: receipt(replacement.hash!),
+  });
+}
+
+function fakeTx(hash: string, wait: ethers.TransactionResponse['wait'], provider: Partial<ethers.Provider> = {}) {
+  return {
+    hash,
+    chainId: 1n,
+    from: SENDER,
+    nonce: 7,
+    to: CONTRACT_ADDRESS,
+    data: DATA,
+    value: 0n,
+    gasLimit: 100000n,
+    provider: { getBlockNumber: async () => START_BLOCK, ...provider },
+    wait,
+  } as unknown as ethers.TransactionResponse;
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+function statuses(tracker: TransactionTracker) {
+  const seen: TransactionStatus[] = [];
+  tracker.subscribe(state => seen.push(state.status));
+  return seen;
+}
+
+describe('TransactionTracker.track', () => {
+  it('follows a transaction to its confirmations and forgets the pending entry', async () => {
+    const store = new MemoryPendingTransactionStore();
+    const tracker = new TransactionTracker({ store, confirmations: 2 });
+    const hash = txHash(1);
+    const wait = vi.fn(async (confirmations?: number) => receipt(hash, START_BLOCK + (confirmations ?? 1)));
+
+    const tracked = tracker.track(fakeTx(hash, wait), { label: 'Create document' });
+    const seen = statuses(tracker);
+
+    expect(store.getAll()).toEqual([expect.objectContaining({ hash, label: 'Create document', from: SENDER, nonce: 7 })]);
+    await expect(tracked.wait()).resolves.toMatchObject({ blockNumber: START_BLOCK + 2 });
+    expect(wait.mock.calls).toEqual([[1], [2]]);
+    expect(seen).toEqual(['mined', 'mined', 'confirmed']);
+    expect(tracked.state).toMatchObject({ status: 'confirmed', confirmations: 2, targetConfirmations: 2 });
+    expect(store.getAll()).toEqual([]);
+  });
+
+  it('follows a sped-up transaction under its new hash', async () => {
+    const store = new MemoryPendingTransactionStore();
+    const tracker = new TransactionTracker({ store });
+    const original = txHash(1);
+    const spedUp = txHash(2);
+    const mined = deferred<ethers.TransactionReceipt>();
+    const replacement = fakeTx(spedUp, () => mined.promise);
+
+    const tracked = tracker.track(fakeTx(original, async () => {
+      throw replacedError('repriced', replacement);
+    }));
+    await vi.waitFor(() => expect(tracked.hash).toBe(spedUp));
+
+    // A reload now resumes the replacement
+    expect(store.getAll()).toEqual([expect.objectContaining({ hash: spedUp, nonce: 7, startBlock: START_BLOCK })]);
+    expect(tracker.get(original)).toBe(tracked);
+    expect(tracker.get(spedUp)).toBe(tracked);
+
+    mined.resolve(receipt(spedUp));
+    await expect(tracked.wait()).resolves.toMatchObject({ hash: spedUp });
+    expect(tracked.state).toMatchObject({ status: 'confirmed', hash: spedUp, originalHash: original });
+    expect(store.getAll()).toEqual([]);
+  });
+
+  it.each([
+    ['cancelled', 'cancelled'],
+    ['replaced', 'replaced'],
+  ])('ends as %s when the wallet replaced the transaction', async (reason, status) => {
+    const tracker = new TransactionTracker({ store: new MemoryPendingTransactionStore() });
+    const replacement = txHash(2);
+
+    const tracked = tracker.track(fakeTx(txHash(1), async () => {
+      throw replacedError(reason, { hash: replacement });
+    }));
+
+    await expect(tracked.wait()).rejects.toMatchObject({ code: 'TRANSACTION_FAILED' });
+    expect(tracked.state).toMatchObject({ status, replacementHash: replacement, hash: txHash(1) });
+  });
+
+  it('decodes the reason of a reverted transaction by replaying it', async () => {
+    const tracker = new TransactionTracker({ store: new MemoryPendingTransactionStore() });
+    const hash = txHash(1);
+    const revertData = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Not the owner'])]);
+    const call = vi.fn(async () => {
+      throw Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data: revertData });
+    });
+
+    const tracked = tracker.track(fakeTx(hash, async () => {
+      throw Object.assign(new Error('transaction execution reverted'), { code: 'CALL_EXCEPTION', receipt: receipt(hash, 11, 0) });
+    }, { call }));
+
+    await expect(tracked.wait()).rejects.toBeInstanceOf(TransactionRevertedError);
+    expect(call).toHaveBeenCalledWith(expect.objectContaining({ to: CONTRACT_ADDRESS, data: DATA, blockTag: 11 }));
+    expect(tracked.state).toMatchObject({ status: 'reverted', revert: { kind: 'require', reason: 'Not the owner' } });
+  });
+
+  it('keeps only the newest maxFinished finished transactions', async () => {
+    const tracker = new TransactionTracker({ store: new MemoryPendingTransactionStore(), maxFinished: 2 });
+    const hashes = [1, 2, 3].map(txHash);
+
+    for (const hash of hashes) {
+      await tracker.track(fakeTx(hash, async () => receipt(hash))).wait();
+    }
+
+    expect(tracker.getAll().map(state => state.hash)).toEqual(hashes.slice(1));
+    expect(tracker.get(hashes[0])).toBeUndefined();
+  });
+});
+
+describe('TransactionTracker.resume', () => {
+  const HASH = txHash(1);
+  const entry: PendingTransaction = {
+    hash: HASH,
+    chainId: 1,
+    label: 'Create document',
+    submittedAt: 1700000000000,
+    from: SENDER,
+    nonce: 7,
+    to: CONTRACT_ADDRESS,
+    data: DATA,
+    value: '0',
+    startBlock: START_BLOCK,
+  };
+
+  /**
+   * Node that no longer knows the pending transaction and mined `replacement` in the block after startBlock
+   */
+  function createProvider({ nonce, replacement }: { nonce: number; replacement?: Partial<ethers.TransactionResponseParams> }) {
+    const provider = {
+      getNetwork: async () => ({ chainId: 1n }),
+      getBlockNumber: async () => START_BLOCK + 2,
+      getTransactionCount: vi.fn(async () => nonce),
+      getTransaction: vi.fn(async () => null),
+      getTransactionReceipt: async (hash: string) => (hash === replacement?.hash ? receipt(hash) : null),
+      getBlock: async (number: number) => {
+        const mined = replacement && number === START_BLOCK + 1
+          ? [new ethers.TransactionResponse(
+            { ...entry, value: 0n, ...replacement } as unknown as ethers.TransactionResponseParams,
+            provider as unknown as ethers.Provider
+          )]
+          : [];
+        return Object.assign(mined.map(tx => tx.hash), { getTransaction: async (index: number) => mined[index] });
+      },
+    };
+    return provider;
+  }
+
+  function resume(provider: ReturnType<typeof createProvider>, entries = [entry]) {
+    const store = new MemoryPendingTransactionStore();
+    entries.forEach(pending => store.put(pending));
+    const tracker = new TransactionTracker({ store });
+    return { store, tracker, resumed: tracker.resume(provider as unknown as ethers.Provider) };
+  }
+
+  it('reports a transaction cancelled while the page was closed', async () => {
+    const cancel = txHash(2);
+    const provider = createProvider({ nonce: 8, replacement: { hash: cancel, to: SENDER, data: '0x' } });
+
+    const [tracked] = await resume(provider).resumed;
+
+    await expect(tracked.wait()).rejects.toMatchObject({ code: 'TRANSACTION_FAILED' });
+    expect(tracked.state).toMatchObject({ status: 'cancelled', replacementHash: cancel, label: 'Create document' });
+    expect(provider.getTransactionCount).toHaveBeenCalledWith(SENDER, 'latest');
+  });
+
+  it('reports a different transaction with the same nonce as replaced', async () => {
+    const other = txHash(2);
+    const provider = createProvider({ nonce: 8, replacement: { hash: other, data: '0xabcdef01' } });
+
+    const [tracked] = await resume(provider).resumed;
+
+    await expect(tracked.wait()).rejects.toMatchObject({ code: 'TRANSACTION_FAILED' });
+    expect(tracked.state).toMatchObject({ status: 'replaced', replacementHash: other });
+  });
+
+  it('follows a transaction sped up while the page was closed', async () => {
+    const spedUp = txHash(2);
+    const provider = createProvider({ nonce: 8, replacement: { hash: spedUp } });
+
+    const [tracked] = await resume(provider).resumed;
+
+    await expect(tracked.wait()).resolves.toMatchObject({ hash: spedUp });
+    expect(tracked.state).toMatchObject({ status: 'confirmed', hash: spedUp, originalHash: HASH });
+  });
+
+  it('reports a transaction whose nonce is still free as dropped', async () => {
+    const { store, resumed } = resume(createProvider({ nonce: 7 }));
+
+    const [tracked] = await resumed;
+
+    await expect(tracked.wait()).rejects.toThrow(/dropped/);
+    expect(tracked.state.status).toBe('failed');
+    expect(store.getAll()).toEqual([]);
+  });
+
+  it('only resumes transactions of the provider chain', async () => {
+    const { resumed } = resume(createProvider({ nonce: 7 }), [{ ...entry, chainId: 11155111 }]);
+
+    await expect(resumed).resolves.toEqual([]);
+  });
+});
+
+describe('LocalStoragePendingTransactionStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function stubLocalStorage() {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    });
+    return items;
+  }
+
+  it('keeps pending transactions across tracker instances', async () => {
+    stubLocalStorage();
+    const hash = txHash(1);
+
+    const tracker = new TransactionTracker({ store: new LocalStoragePendingTransactionStore() });
+    tracker.track(fakeTx(hash, () => new Promise(() => {})), { label: 'Create document' });
+    await vi.waitFor(() => expect(new LocalStoragePendingTransactionStore().getAll()[0]?.startBlock).toBe(START_BLOCK));
+
+    // What a tracker created after a reload reads
+    expect(new LocalStoragePendingTransactionStore().getAll()).toEqual([{
+      hash,
+      chainId: 1,
+      label: 'Create document',
+      submittedAt: expect.any(Number),
+      from: SENDER,
+      nonce: 7,
+      to: CONTRACT_ADDRESS,
+      data: DATA,
+      value: '0',
+      startBlock: START_BLOCK,
+    }]);
+  });
+
+  it('replaces an entry with the same hash and deletes by hash', () => {
+    stubLocalStorage();
+    const store = new LocalStoragePendingTransactionStore('custom-key');
+    const pending = { hash: txHash(1), chainId: 1, submittedAt: 1 };
+
+    store.put(pending);
+    store.put({ ...pending, label: 'Renamed' });
+    store.put({ ...pending, hash: txHash(2) });
+    expect(store.getAll().map(entry => [entry.hash, entry.label])).toEqual([[txHash(1), 'Renamed'], [txHash(2), undefined]]);
+
+    store.delete(txHash(1));
+    expect(store.getAll().map(entry => entry.hash)).toEqual([txHash(2)]);
+  });
+
+  it('reads corrupted storage as empty', () => {
+    stubLocalStorage().set('fhevm-sdk:pending-transactions', '{not json');
+
+    expect(new LocalStoragePendingTransactionStore().getAll()).toEqual([]);
+  });
+});
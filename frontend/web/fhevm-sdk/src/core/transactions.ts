@@ -0,0 +1,472 @@
+/**
+ * FHEVM Transaction Tracker - Universal SDK
+ * Follows sent transactions through submitted → mined → confirmed, detects replacements
+ * and reverts, and keeps pending hashes across page reloads
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError, TransactionRevertedError, toFhevmError } from './errors.js';
+import { DecodedRevert, decodeRevert, decodeRevertData } from './reverts.js';
+import { getLogger } from './logger.js';
+
+export type TransactionStatus =
+  | 'submitted'
+  | 'mined'
+  | 'confirmed'
+  /** Replaced by another transaction of the same nonce */
+  | 'replaced'
+  /** Replaced by a transaction that does nothing (usually sent from the wallet's "cancel") */
+  | 'cancelled'
+  | 'reverted'
+  /** Dropped, or could not be followed */
+  | 'failed';
+
+export interface TransactionState {
+  hash: string;
+  /** Set when a sped-up transaction replaced the original one */
+  originalHash?: string;
+  label?: string;
+  status: TransactionStatus;
+  confirmations: number;
+  /** Confirmations after which the transaction counts as confirmed */
+  targetConfirmations: number;
+  receipt?: ethers.TransactionReceipt;
+  /** Hash of the replacing transaction, for `replaced` and `cancelled` */
+  replacementHash?: string;
+  revert?: DecodedRevert;
+  error?: FhevmError;
+  /** Unix timestamp in milliseconds */
+  submittedAt: number;
+}
+
+export type TransactionListener = (state: TransactionState) => void;
+
+const FINAL_STATUSES: TransactionStatus[] = ['confirmed', 'replaced', 'cancelled', 'reverted', 'failed'];
+
+export function isFinalTransactionStatus(status: TransactionStatus) {
+  return FINAL_STATUSES.includes(status);
+}
+
+/**
+ * Pending transaction saved so it can be followed again after a reload
+ */
+export interface PendingTransaction {
+  hash: string;
+  chainId: number;
+  label?: string;
+  submittedAt: number;
+  /** Sender and nonce - after a reload, a nonce used by another transaction means this one was replaced */
+  from?: string;
+  nonce?: number;
+  /** Compared with the replacing transaction to tell a speed-up from a cancel or a different transaction */
+  to?: string | null;
+  data?: string;
+  /** Decimal wei, as bigints do not survive JSON */
+  value?: string;
+  /** Block number when the transaction was sent, where the search for its replacement starts */
+  startBlock?: number;
+}
+
+export interface PendingTransactionStore {
+  getAll(): PendingTransaction[];
+  put(transaction: PendingTransaction): void;
+  delete(hash: string): void;
+}
+
+/**
+ * localStorage-backed store (browser)
+ */
+export class LocalStoragePendingTransactionStore implements PendingTransactionStore {
+  private key: string;
+
+  constructor(key = 'fhevm-sdk:pending-transactions') {
+    this.key = key;
+  }
+
+  getAll(): PendingTransaction[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.key) ?? '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  put(transaction: PendingTransaction) {
+    const others = this.getAll().filter(entry => entry.hash !== transaction.hash);
+    localStorage.setItem(this.key, JSON.stringify([...others, transaction]));
+  }
+
+  delete(hash: string) {
+    localStorage.setItem(this.key, JSON.stringify(this.getAll().filter(entry => entry.hash !== hash)));
+  }
+}
+
+/**
+ * In-memory store (Node.js, or browsers without localStorage)
+ */
+export class MemoryPendingTransactionStore implements PendingTransactionStore {
+  private transactions = new Map<string, PendingTransaction>();
+
+  getAll() {
+    return Array.from(this.transactions.values());
+  }
+
+  put(transaction: PendingTransaction) {
+    this.transactions.set(transaction.hash, transaction);
+  }
+
+  delete(hash: string) {
+    this.transactions.delete(hash);
+  }
+}
+
+export function createDefaultPendingTransactionStore(): PendingTransactionStore {
+  return typeof localStorage !== 'undefined'
+    ? new LocalStoragePendingTransactionStore()
+    : new MemoryPendingTransactionStore();
+}
+
+export interface TrackTransactionOptions {
+  /** Shown by UIs, e.g. "Create document" */
+  label?: string;
+  /** Confirmations before `confirmed`, defaults to the tracker's */
+  confirmations?: number;
+  /** Contract interface used to decode custom errors */
+  iface?: ethers.Interface;
+}
+
+export interface TransactionTrackerOptions {
+  /** Confirmations before `confirmed`, defaults to 1 */
+  confirmations?: number;
+  /** Where pending hashes are kept, defaults to localStorage in browsers */
+  store?: PendingTransactionStore;
+  /** Finished transactions kept for `get`/`getAll`, oldest dropped first, defaults to 50 */
+  maxFinished?: number;
+}
+
+const log = getLogger('transactions');
+
+/**
+ * One followed transaction - await it with `wait()` or subscribe to its states
+ */
+export class TrackedTransaction {
+  private current: TransactionState;
+  private listeners = new Set<TransactionListener>();
+  private result: Promise<ethers.TransactionReceipt>;
+
+  constructor(initial: TransactionState, run: (update: (patch: Partial<TransactionState>) => void) => Promise<ethers.TransactionReceipt>) {
+    this.current = initial;
+    // Started on the next tick so subscribers attached right after construction see every state
+    this.result = Promise.resolve().then(() => run(patch => this.update(patch)));
+    // Rejections are delivered through wait() and the failed states
+    this.result.catch(() => {});
+  }
+
+  get hash() {
+    return this.current.hash;
+  }
+
+  get state(): TransactionState {
+    return this.current;
+  }
+
+  /**
+   * Receipt once the transaction is confirmed - rejects with TransactionRevertedError on revert
+   * and with a TRANSACTION_FAILED FhevmError when it is replaced, cancelled or dropped
+   */
+  wait(): Promise<ethers.TransactionReceipt> {
+    return this.result;
+  }
+
+  /**
+   * Receive every state change, starting with the current one - returns an unsubscribe function
+   */
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    listener(this.current);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(patch: Partial<TransactionState>) {
+    this.current = { ...this.current, ...patch };
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(this.current);
+      } catch (error) {
+        log.warn(`Listener for transaction ${this.current.hash} threw`, error);
+      }
+    }
+  }
+}
+
+export class TransactionTracker {
+  private confirmations: number;
+  private store: PendingTransactionStore;
+  private maxFinished: number;
+  /** Keyed by current hash, in tracking order */
+  private transactions = new Map<string, TrackedTransaction>();
+  private listeners = new Set<TransactionListener>();
+
+  constructor(options: TransactionTrackerOptions = {}) {
+    this.confirmations = options.confirmations ?? 1;
+    this.store = options.store ?? createDefaultPendingTransactionStore();
+    this.maxFinished = options.maxFinished ?? 50;
+  }
+
+  /**
+   * Follow a transaction that was just sent
+   */
+  track(tx: ethers.TransactionResponse, options: TrackTransactionOptions = {}): TrackedTransaction {
+    const existing = this.transactions.get(tx.hash);
+    if (existing) return existing;
+
+    const pending: PendingTransaction = {
+      hash: tx.hash,
+      chainId: Number(tx.chainId),
+      label: options.label,
+      submittedAt: Date.now(),
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value.toString(),
+    };
+    this.store.put(pending);
+    return this.follow(pending, tx, options);
+  }
+
+  /**
+   * Follow again the transactions that were still pending when the page was closed - one sped up,
+   * cancelled or replaced in the meantime ends in the same state as if the page had stayed open
+   */
+  async resume(provider: ethers.Provider, options: Omit<TrackTransactionOptions, 'label'> = {}): Promise<TrackedTransaction[]> {
+    const { chainId } = await provider.getNetwork();
+    const pending = this.store.getAll().filter(entry => entry.chainId === Number(chainId));
+
+    return Promise.all(pending.map(async entry => {
+      const existing = this.transactions.get(entry.hash);
+      if (existing) return existing;
+      const tx = await provider.getTransaction(entry.hash).catch(() => null);
+      const resumed = tx
+        ? entry.startBlock !== undefined ? tx.replaceableTransaction(entry.startBlock) : tx
+        : await recreateReplacedTransaction(provider, entry).catch(() => null);
+      return this.follow(entry, resumed, { ...options, label: entry.label });
+    }));
+  }
+
+  /**
+   * Tracked transaction by its current hash, or by the original hash of a sped-up one
+   */
+  get(hash: string): TrackedTransaction | undefined {
+    return this.transactions.get(hash)
+      ?? Array.from(this.transactions.values()).find(tracked => tracked.state.originalHash === hash);
+  }
+
+  getAll(): TransactionState[] {
+    return Array.from(this.transactions.values(), tracked => tracked.state);
+  }
+
+  /**
+   * Receive state changes of every tracked transaction - returns an unsubscribe function
+   */
+  subscribe(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private follow(pending: PendingTransaction, tx: ethers.TransactionResponse | null, options: TrackTransactionOptions) {
+    const targetConfirmations = Math.max(1, options.confirmations ?? this.confirmations);
+    const initial: TransactionState = {
+      hash: pending.hash,
+      label: pending.label,
+      status: 'submitted',
+      confirmations: 0,
+      targetConfirmations,
+      submittedAt: pending.submittedAt,
+    };
+
+    const tracked = new TrackedTransaction(initial, async update => {
+      const rekeyingUpdate = (patch: Partial<TransactionState>) => {
+        if (patch.hash && patch.hash !== tracked.hash) this.rekey(tracked, pending, patch.hash);
+        update(patch);
+      };
+      try {
+        if (!tx) {
+          throw new FhevmError('TRANSACTION_FAILED', `Transaction ${pending.hash} is no longer known to the node - it was dropped`);
+        }
+        if (pending.startBlock === undefined) await this.recordStartBlock(pending, tx);
+        return await waitForConfirmations(tx, targetConfirmations, options.iface, rekeyingUpdate);
+      } catch (error) {
+        const fhevmError = toFhevmError(error, 'TRANSACTION_FAILED');
+        if (!isFinalTransactionStatus(tracked.state.status)) {
+          update({ status: 'failed', error: fhevmError });
+        }
+        throw fhevmError;
+      } finally {
+        this.store.delete(tracked.hash);
+        this.prune();
+      }
+    });
+
+    this.transactions.set(pending.hash, tracked);
+    tracked.subscribe(state => {
+      for (const listener of Array.from(this.listeners)) listener(state);
+    });
+    return tracked;
+  }
+
+  /**
+   * Follow a sped-up transaction under its new hash, so a reload resumes the replacement
+   */
+  private rekey(tracked: TrackedTransaction, pending: PendingTransaction, hash: string) {
+    this.store.delete(tracked.hash);
+    this.store.put({ ...pending, hash });
+    this.transactions.delete(tracked.hash);
+    this.transactions.set(hash, tracked);
+  }
+
+  /**
+   * Save the current block with the pending entry, for finding a replacement after a reload
+   */
+  private async recordStartBlock(pending: PendingTransaction, tx: ethers.TransactionResponse) {
+    try {
+      pending.startBlock = await tx.provider.getBlockNumber();
+      if (this.store.getAll().some(entry => entry.hash === pending.hash)) this.store.put(pending);
+    } catch (error) {
+      log.debug(`Could not read the block number for transaction ${pending.hash}`, error);
+    }
+  }
+
+  /**
+   * Drop the oldest finished transactions beyond `maxFinished`
+   */
+  private prune() {
+    const finished = Array.from(this.transactions).filter(([, tracked]) => isFinalTransactionStatus(tracked.state.status));
+    for (const [hash] of finished.slice(0, Math.max(0, finished.length - this.maxFinished))) {
+      this.transactions.delete(hash);
+    }
+  }
+}
+
+/**
+ * Stand-in for a pending transaction the node no longer knows, when another transaction has used
+ * its nonce - waiting on it lets ethers find that transaction in the blocks since `startBlock` and
+ * report it as a replacement. Null when the nonce is still free, i.e. the transaction was dropped
+ */
+async function recreateReplacedTransaction(provider: ethers.Provider, entry: PendingTransaction) {
+  if (entry.from === undefined || entry.nonce === undefined || entry.startBlock === undefined) return null;
+  const nonce = await provider.getTransactionCount(entry.from, 'latest');
+  if (nonce <= entry.nonce) return null;
+
+  const params = {
+    hash: entry.hash,
+    from: entry.from,
+    nonce: entry.nonce,
+    to: entry.to ?? null,
+    data: entry.data ?? '0x',
+    value: BigInt(entry.value ?? 0),
+    chainId: BigInt(entry.chainId),
+    blockNumber: null,
+    blockHash: null,
+    index: 0,
+    type: 0,
+    gasLimit: 0n,
+    gasPrice: 0n,
+  };
+  return new ethers.TransactionResponse(params as unknown as ethers.TransactionResponseParams, provider)
+    .replaceableTransaction(entry.startBlock);
+}
+
+/**
+ * Reason a mined transaction reverted, found by replaying it at its block
+ */
+async function replayRevert(tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt, iface?: ethers.Interface) {
+  try {
+    await tx.provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      blockTag: receipt.blockNumber,
+    });
+  } catch (error) {
+    const revert = decodeRevert(error, iface);
+    if (revert) return revert;
+  }
+  return decodeRevertData(null);
+}
+
+async function waitForConfirmations(
+  tx: ethers.TransactionResponse,
+  target: number,
+  iface: ethers.Interface | undefined,
+  update: (patch: Partial<TransactionState>) => void
+): Promise<ethers.TransactionReceipt> {
+  let current = tx;
+
+  for (let confirmations = 1; confirmations <= target; confirmations++) {
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await current.wait(confirmations);
+    } catch (error: any) {
+      if (error?.code === 'TRANSACTION_REPLACED') {
+        const replacement: ethers.TransactionResponse = error.replacement;
+        // A sped-up transaction is the same transaction with a higher fee - keep following it
+        if (error.reason === 'repriced') {
+          update({ hash: replacement.hash, originalHash: tx.hash });
+          current = replacement;
+          confirmations--;
+          continue;
+        }
+        const status = error.reason === 'cancelled' ? 'cancelled' : 'replaced';
+        const fhevmError = new FhevmError('TRANSACTION_FAILED', `Transaction ${current.hash} was ${status} by ${replacement.hash}`, error);
+        update({ status, replacementHash: replacement.hash, receipt: error.receipt, error: fhevmError });
+        throw fhevmError;
+      }
+      if (error?.code === 'CALL_EXCEPTION' && error.receipt) {
+        const revert = await replayRevert(current, error.receipt, iface);
+        const fhevmError = new TransactionRevertedError(revert, error);
+        update({ status: 'reverted', receipt: error.receipt, confirmations, revert, error: fhevmError });
+        throw fhevmError;
+      }
+      throw error;
+    }
+
+    if (!receipt) {
+      throw new FhevmError('TRANSACTION_FAILED', `No receipt for transaction ${current.hash}`);
+    }
+    update({ status: 'mined', confirmations, receipt });
+    if (confirmations >= target) {
+      update({ status: 'confirmed' });
+      return receipt;
+    }
+  }
+
+  // Unreachable - the loop returns on the last confirmation
+  throw new FhevmError('TRANSACTION_FAILED', `Transaction ${current.hash} was not confirmed`);
+}
+
+let defaultTracker: TransactionTracker | null = null;
+
+export function getDefaultTransactionTracker() {
+  if (!defaultTracker) defaultTracker = new TransactionTracker();
+  return defaultTracker;
+}
+
+export function setDefaultTransactionTracker(tracker: TransactionTracker) {
+  defaultTracker = tracker;
+}
+
+/**
+ * Follow a transaction with the default tracker
+ *
+ * const receipt = await trackTransaction(tx, { label: 'Create document' }).wait()
+ */
+export function trackTransaction(tx: ethers.TransactionResponse, options?: TrackTransactionOptions) {
+  return getDefaultTransactionTracker().track(tx, options);
+}
@@ -0,0 +1,122 @@
+/**
+ * FHEVM WASM Assets - Universal SDK
+ * Resolves, compiles and initializes the TFHE and KMS WASM modules of the relayer bundle
+ */
+
+import { RelayerError } from './errors.js';
+import { RELAYER_SDK_VERSION, RelayerSdk, RelayerSdkLoaderOptions, loadRelayerSdk, relayerSdkCdnUrl } from './loader.js';
+import { getLogger } from './logger.js';
+
+export interface WasmAssetOptions {
+  /**
+   * - 'cdn-first' (default) - load the modules next to the relayer bundle, fall back to `baseUrl`
+   * - 'local' - only load from `baseUrl`, no request to the bundle origin (strict CSP)
+   */
+  mode?: 'cdn-first' | 'local';
+  /** Where tfhe_bg.wasm and kms_lib_bg.wasm are served from, defaults to '/' */
+  baseUrl?: string;
+  /** Explicit module URLs, take precedence over `baseUrl` */
+  tfheUrl?: string;
+  kmsUrl?: string;
+  /** Compile while downloading with WebAssembly.compileStreaming, defaults to true */
+  streaming?: boolean;
+}
+
+export interface FhevmPreloadOptions {
+  relayerSdk?: RelayerSdkLoaderOptions;
+  wasm?: WasmAssetOptions;
+}
+
+const log = getLogger('wasm');
+
+/** Preloads by resolved loader and WASM options */
+const preloads = new Map<string, Promise<RelayerSdk>>();
+
+export function resolveWasmUrls(options: WasmAssetOptions = {}) {
+  const baseUrl = (options.baseUrl ?? '/').replace(/\/?$/, '/');
+  return {
+    tfheUrl: options.tfheUrl ?? `${baseUrl}tfhe_bg.wasm`,
+    kmsUrl: options.kmsUrl ?? `${baseUrl}kms_lib_bg.wasm`,
+  };
+}
+
+async function compileWasm(url: string, streaming: boolean): Promise<WebAssembly.Module> {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new RelayerError('SDK_NOT_LOADED', `Failed to fetch WASM module ${url}`, error);
+  }
+  if (!response.ok) {
+    throw new RelayerError('SDK_NOT_LOADED', `Failed to fetch WASM module ${url}: HTTP ${response.status}`);
+  }
+
+  if (streaming && typeof WebAssembly.compileStreaming === 'function') {
+    try {
+      return await WebAssembly.compileStreaming(response.clone());
+    } catch (error) {
+      // Usually a server that does not send `Content-Type: application/wasm`
+      log.warn(`Streaming compilation of ${url} failed, compiling from buffer`, error);
+    }
+  }
+  return WebAssembly.compile(await response.arrayBuffer());
+}
+
+async function initWasm(sdk: RelayerSdk, options: WasmAssetOptions) {
+  if ((options.mode ?? 'cdn-first') === 'cdn-first') {
+    try {
+      await sdk.initSDK();
+      log.info('RelayerSDK initialized with CDN');
+      return;
+    } catch (cdnError) {
+      // If CDN fails (usually CORS), fallback to local WASM files
+      log.warn('CDN initialization failed, falling back to local WASM files', cdnError);
+    }
+  }
+
+  const { tfheUrl, kmsUrl } = resolveWasmUrls(options);
+  const streaming = options.streaming ?? true;
+  const [tfheParams, kmsParams] = await Promise.all([
+    compileWasm(tfheUrl, streaming),
+    compileWasm(kmsUrl, streaming),
+  ]);
+  await sdk.initSDK({ tfheParams, kmsParams });
+  log.info('RelayerSDK initialized with local WASM files', tfheUrl, kmsUrl);
+}
+
+/**
+ * Options with their defaults filled in, so equivalent calls share one preload
+ */
+function preloadKey({ relayerSdk = {}, wasm = {} }: FhevmPreloadOptions) {
+  const version = relayerSdk.version ?? RELAYER_SDK_VERSION;
+  return JSON.stringify({
+    source: relayerSdk.source ?? 'auto',
+    url: relayerSdk.url ?? relayerSdkCdnUrl(version),
+    integrity: relayerSdk.integrity ?? null,
+    allowVersionMismatch: relayerSdk.allowVersionMismatch ?? false,
+    mode: wasm.mode ?? 'cdn-first',
+    ...resolveWasmUrls(wasm),
+    streaming: wasm.streaming ?? true,
+  });
+}
+
+/**
+ * Load the relayer bundle and compile its WASM modules ahead of wallet connection.
+ * Initializations with the same `relayerSdk` and `wasm` options reuse the result,
+ * so calling this on page load makes them fast.
+ */
+export function preloadFhevm(options: FhevmPreloadOptions = {}): Promise<RelayerSdk> {
+  const key = preloadKey(options);
+  let ready = preloads.get(key);
+  if (!ready) {
+    ready = (async () => {
+      const sdk = await loadRelayerSdk(options.relayerSdk);
+      await initWasm(sdk, options.wasm ?? {});
+      return sdk;
+    })();
+    // Allow a retry after a failed preload
+    ready.catch(() => preloads.delete(key));
+    preloads.set(key, ready);
+  }
+  return ready;
+}
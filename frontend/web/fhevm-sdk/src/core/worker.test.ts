@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FhevmWorker, FhevmWorkerRequest, FhevmWorkerResponse, createWorkerInstance } from './worker.js';
+
+/**
+ * Worker answering every request with `respond`, after a progress event
+ */
+function createFakeWorker(respond: (request: FhevmWorkerRequest) => unknown) {
+  const worker = {
+    onmessage: null as ((event: { data: FhevmWorkerResponse }) => void) | null,
+    onerror: null as ((event: { message: string }) => void) | null,
+    requests: [] as FhevmWorkerRequest[],
+    postMessage(request: FhevmWorkerRequest) {
+      worker.requests.push(request);
+      queueMicrotask(() => {
+        worker.onmessage?.({ data: { id: request.id, kind: 'progress', event: { task: request.task, stage: 'done' } } });
+        try {
+          worker.onmessage?.({ data: { id: request.id, kind: 'result', result: respond(request) } });
+        } catch (error: any) {
+          worker.onmessage?.({ data: { id: request.id, kind: 'error', error: { code: error.code, message: error.message } } });
+        }
+      });
+    },
+    terminate: vi.fn(),
+  };
+  return worker;
+}
+
+const CONTRACT_ADDRESS = '0xcccccccccccccccccccccccccccccccccccccccc';
+const USER = '0x1111111111111111111111111111111111111111';
+const HANDLE = `0x${'ab'.repeat(30)}0400`;
+
+describe('createWorkerInstance', () => {
+  it('forwards decryption and EIP-712 calls to the worker', async () => {
+    const fake = createFakeWorker(request => {
+      if (request.task === 'userDecrypt') return { [HANDLE]: 42n };
+      if (request.task === 'publicDecrypt') return { clearValues: { [HANDLE]: 7n }, decryptionProof: '0x01' };
+      if (request.task === 'createEIP712') return { domain: { name: 'Decryption' } };
+      return undefined;
+    });
+    const onProgress = vi.fn();
+    const instance = createWorkerInstance(new FhevmWorker(fake as unknown as Worker, onProgress));
+    const batch = [{ handle: HANDLE, contractAddress: CONTRACT_ADDRESS }];
+
+    await expect(instance.userDecrypt(batch, 'private', 'public', 'signature', [CONTRACT_ADDRESS], USER, '1', '10'))
+      .resolves.toEqual({ [HANDLE]: 42n });
+    await expect(instance.publicDecrypt([HANDLE])).resolves.toMatchObject({ clearValues: { [HANDLE]: 7n } });
+    await expect(instance.createEIP712('public', [CONTRACT_ADDRESS], '1', '10')).resolves.toEqual({ domain: { name: 'Decryption' } });
+
+    expect(fake.requests.map(request => [request.task, request.params])).toEqual([
+      ['userDecrypt', { args: [batch, 'private', 'public', 'signature', [CONTRACT_ADDRESS], USER, '1', '10'] }],
+      ['publicDecrypt', { args: [[HANDLE]] }],
+      ['createEIP712', { args: ['public', [CONTRACT_ADDRESS], '1', '10'] }],
+    ]);
+    expect(onProgress).toHaveBeenCalledWith({ task: 'userDecrypt', stage: 'done' });
+  });
+
+  it('replays the input calls in the worker on encrypt', async () => {
+    const fake = createFakeWorker(() => ({ handles: [new Uint8Array(32)], inputProof: new Uint8Array(2) }));
+    const instance = createWorkerInstance(new FhevmWorker(fake as unknown as Worker));
+
+    await instance.createEncryptedInput(CONTRACT_ADDRESS, USER).add32(5).addBool(true).encrypt();
+
+    expect(fake.requests[0]).toMatchObject({
+      task: 'encrypt',
+      params: { contractAddress: CONTRACT_ADDRESS, userAddress: USER, calls: [['add32', 5], ['addBool', true]] },
+    });
+  });
+
+  it('rejects with the code of a worker failure', async () => {
+    const fake = createFakeWorker(() => {
+      throw Object.assign(new Error('Relayer unavailable'), { code: 'RELAYER_UNAVAILABLE' });
+    });
+    const instance = createWorkerInstance(new FhevmWorker(fake as unknown as Worker));
+
+    await expect(instance.publicDecrypt([HANDLE])).rejects.toMatchObject({ code: 'RELAYER_UNAVAILABLE', message: 'Relayer unavailable' });
+  });
+
+  it('rejects pending calls when terminated', async () => {
+    const fake = createFakeWorker(() => undefined);
+    fake.postMessage = vi.fn();
+    const worker = new FhevmWorker(fake as unknown as Worker);
+
+    const pending = worker.userDecrypt([]);
+    worker.terminate();
+
+    await expect(pending).rejects.toThrow(/terminated/);
+    expect(fake.terminate).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * FHEVM Worker Client - Universal SDK
+ * Runs the relayer instance in a dedicated Web Worker - encryption, input proofs, keypairs and decryption
+ */
+
+import { FhevmError, FhevmErrorCode } from './errors.js';
+import { RelayerSdkLoaderOptions } from './loader.js';
+import { WasmAssetOptions } from './wasm.js';
+
+export type FhevmWorkerTask = 'init' | 'encrypt' | 'generateKeypair' | 'createEIP712' | 'userDecrypt' | 'publicDecrypt';
+
+export interface FhevmProgressEvent {
+  task: FhevmWorkerTask;
+  stage: 'loading-sdk' | 'creating-instance' | 'encrypting' | 'generating-keypair' | 'decrypting' | 'done';
+}
+
+export interface FhevmWorkerInitParams {
+  relayerSdk?: RelayerSdkLoaderOptions;
+  wasm?: WasmAssetOptions;
+  /** Relayer `createInstance` config - `network` must be an RPC URL, providers cannot cross threads */
+  instanceConfig: Record<string, unknown>;
+}
+
+export interface FhevmWorkerEncryptParams {
+  contractAddress: string;
+  userAddress: string;
+  /** Relayer input calls (`add64`, `addBool`, ...) replayed in the worker, in order */
+  calls: Array<[method: string, value: unknown]>;
+}
+
+/**
+ * Relayer instance calls forwarded as they are - their arguments and results are plain data
+ */
+export type FhevmWorkerForwardedTask = 'createEIP712' | 'userDecrypt' | 'publicDecrypt';
+
+export type FhevmWorkerRequest =
+  | { id: number; task: 'init'; params: FhevmWorkerInitParams }
+  | { id: number; task: 'encrypt'; params: FhevmWorkerEncryptParams }
+  | { id: number; task: 'generateKeypair'; params?: undefined }
+  | { id: number; task: FhevmWorkerForwardedTask; params: { args: unknown[] } };
+
+export type FhevmWorkerResponse =
+  | { id: number; kind: 'result'; result: any }
+  | { id: number; kind: 'error'; error: { code?: FhevmErrorCode; message: string } }
+  | { id: number; kind: 'progress'; event: FhevmProgressEvent };
+
+export type FhevmWorkerFactory = () => Worker;
+
+/**
+ * Worker built from the SDK's own entry - bundlers (Vite, webpack 5) pick up the `new URL` pattern
+ */
+export const defaultWorkerFactory: FhevmWorkerFactory = () =>
+  new Worker(new URL('./fhevm.worker.js', import.meta.url), { type: 'module' });
+
+const INPUT_METHODS = ['addBool', 'add8', 'add16', 'add32', 'add64', 'add128', 'add256', 'addAddress'];
+
+/**
+ * Promise-based wrapper around the worker message protocol
+ */
+export class FhevmWorker {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (error: unknown) => void }>();
+  private onProgress?: (event: FhevmProgressEvent) => void;
+
+  constructor(worker: Worker, onProgress?: (event: FhevmProgressEvent) => void) {
+    this.worker = worker;
+    this.onProgress = onProgress;
+    this.worker.onmessage = event => this.handleMessage(event.data as FhevmWorkerResponse);
+    this.worker.onerror = event => {
+      this.rejectAll(new FhevmError('UNKNOWN', `FHEVM worker failed: ${event.message}`));
+    };
+  }
+
+  private handleMessage(message: FhevmWorkerResponse) {
+    if (message.kind === 'progress') {
+      this.onProgress?.(message.event);
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+    this.pending.delete(message.id);
+
+    if (message.kind === 'result') {
+      pending.resolve(message.result);
+    } else if (message.error.code) {
+      pending.reject(new FhevmError(message.error.code, message.error.message));
+    } else {
+      // Keep plain errors plain so toFhevmError can still classify them
+      pending.reject(new Error(message.error.message));
+    }
+  }
+
+  private rejectAll(error: unknown) {
+    for (const { reject } of this.pending.values()) reject(error);
+    this.pending.clear();
+  }
+
+  private call<T>(request: Omit<FhevmWorkerRequest, 'id'>): Promise<T> {
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...request, id });
+    });
+  }
+
+  init(params: FhevmWorkerInitParams): Promise<void> {
+    return this.call({ task: 'init', params });
+  }
+
+  encrypt(params: FhevmWorkerEncryptParams): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+    return this.call({ task: 'encrypt', params });
+  }
+
+  generateKeypair(): Promise<{ publicKey: string; privateKey: string }> {
+    return this.call({ task: 'generateKeypair' });
+  }
+
+  createEIP712(...args: unknown[]): Promise<any> {
+    return this.call({ task: 'createEIP712', params: { args } });
+  }
+
+  userDecrypt(...args: unknown[]): Promise<Record<string, any>> {
+    return this.call({ task: 'userDecrypt', params: { args } });
+  }
+
+  publicDecrypt(...args: unknown[]): Promise<any> {
+    return this.call({ task: 'publicDecrypt', params: { args } });
+  }
+
+  /**
+   * Relayer-compatible encrypted input that records values and encrypts in the worker
+   */
+  createEncryptedInput(contractAddress: string, userAddress: string) {
+    const calls: FhevmWorkerEncryptParams['calls'] = [];
+    const input: Record<string, any> = {
+      encrypt: () => this.encrypt({ contractAddress, userAddress, calls }),
+    };
+    for (const method of INPUT_METHODS) {
+      input[method] = (value: unknown) => {
+        calls.push([method, value]);
+        return input;
+      };
+    }
+    return input;
+  }
+
+  terminate() {
+    this.worker.terminate();
+    this.rejectAll(new FhevmError('UNKNOWN', 'FHEVM worker was terminated'));
+  }
+}
+
+/**
+ * Stand-in for the relayer instance whose every call runs in the worker, so the main thread
+ * neither loads the WASM nor creates an instance of its own
+ */
+export function createWorkerInstance(worker: FhevmWorker) {
+  return {
+    createEncryptedInput: (contractAddress: string, userAddress: string) => worker.createEncryptedInput(contractAddress, userAddress),
+    generateKeypair: () => worker.generateKeypair(),
+    createEIP712: (...args: unknown[]) => worker.createEIP712(...args),
+    userDecrypt: (...args: unknown[]) => worker.userDecrypt(...args),
+    publicDecrypt: (...args: unknown[]) => worker.publicDecrypt(...args),
+  };
+}
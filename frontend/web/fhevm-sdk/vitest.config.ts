@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps vitest from picking up the web app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    coverage: {
+      provider: 'v8',
+      include: ['src/**/*.ts'],
+      exclude: ['src/**/*.test.ts', 'src/types/**'],
+    },
+  },
+});
@@ -1,10 +1,10 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import React, { useEffect, useRef, useState } from "react";
+import { getContractReadOnly, getContractWithSigner, ABI } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useFhevm, useEncrypt, useDecrypt, useContractEvents, preloadFhevm, isFhevmError, trackTransaction, FhevmContract, TransactionRevertedError } from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
 interface DocumentData {
@@ -44,16 +44,32 @@ const App: React.FC = () => {
   });
   const [newDocumentData, setNewDocumentData] = useState({ title: "", content: "", version: 1 });
   const [selectedDocument, setSelectedDocument] = useState<DocumentData | null>(null);
+  const decryptAbortRef = useRef<AbortController | null>(null);
   const [userActions, setUserActions] = useState<UserAction[]>([]);
   const [contractAddress, setContractAddress] = useState("");
+  const [eventContract, setEventContract] = useState<FhevmContract | null>(null);
+  // Our own transactions reload the list when they confirm, their events need no second reload
+  const ownTransactionsRef = useRef(new Set<string>());
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
 
   const { status, initialize, isInitialized } = useFhevm();
   const { encrypt, isEncrypting } = useEncrypt();
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
 
+  // Refresh the list when anyone creates or verifies a document, not only after our own transactions
+  useContractEvents(eventContract, ["BusinessDataCreated", "DecryptionVerified", "PublicDecryptionVerified"], {
+    onEvent: event => {
+      if (!event.removed && !ownTransactionsRef.current.has(event.transactionHash)) loadDocuments();
+    },
+  });
+
   const itemsPerPage = 6;
 
+  useEffect(() => {
+    // Compile the FHE WASM modules while the user connects their wallet
+    preloadFhevm().catch(() => {});
+  }, []);
+
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
       if (!isConnected || isInitialized || fhevmInitializing) return;
@@ -79,6 +95,7 @@ const App: React.FC = () => {
   useEffect(() => {
     const loadDataAndContract = async () => {
       if (!isConnected) {
+        setEventContract(null);
         setLoading(false);
         return;
       }
@@ -86,7 +103,11 @@ const App: React.FC = () => {
       try {
         await loadDocuments();
         const contract = await getContractReadOnly();
-        if (contract) setContractAddress(await contract.getAddress());
+        if (contract) {
+          const deployedAddress = await contract.getAddress();
+          setContractAddress(deployedAddress);
+          setEventContract(new FhevmContract(contract, deployedAddress, undefined, ABI));
+        }
       } catch (error) {
         console.error('Failed to load data:', error);
       } finally {
@@ -183,7 +204,17 @@ const App: React.FC = () => {
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
+      const tracked = trackTransaction(tx, { label: "Create document", iface: contract.interface });
+      const unsubscribe = tracked.subscribe(({ hash, status }) => {
+        // Follows sped-up replacements too
+        ownTransactionsRef.current.add(hash);
+        if (status === "mined") setTransactionStatus({ visible: true, status: "pending", message: "Transaction mined, confirming..." });
+      });
+      try {
+        await tracked.wait();
+      } finally {
+        unsubscribe();
+      }
       
       addUserAction("CREATE", businessId, `Created document: ${newDocumentData.title}`);
       setTransactionStatus({ visible: true, status: "success", message: "Document created successfully!" });
@@ -194,7 +225,9 @@ const App: React.FC = () => {
     } catch (e: any) {
       const errorMessage = e.message?.includes("user rejected transaction") 
         ? "Transaction rejected" 
-        : "Creation failed: " + (e.message || "Unknown error");
+        : e instanceof TransactionRevertedError
+          ? "Creation failed: " + e.revert.message
+          : "Creation failed: " + (e.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
     } finally { 
       setCreatingDocument(false); 
@@ -202,6 +235,13 @@ const App: React.FC = () => {
     }
   };
 
+  const closeDocument = () => {
+    // Stop a decryption still running for the document being closed
+    decryptAbortRef.current?.abort();
+    decryptAbortRef.current = null;
+    setSelectedDocument(null);
+  };
+
   const decryptDocument = async (documentId: string): Promise<number | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
@@ -209,6 +249,10 @@ const App: React.FC = () => {
       return null; 
     }
     
+    decryptAbortRef.current?.abort();
+    const controller = new AbortController();
+    decryptAbortRef.current = controller;
+
     try {
       const contractRead = await getContractReadOnly();
       if (!contractRead) return null;
@@ -231,7 +275,8 @@ const App: React.FC = () => {
         [encryptedValueHandle],
         contractAddress,
         (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(documentId, abiEncodedClearValues, decryptionProof)
+          contractWrite.verifyDecryption(documentId, abiEncodedClearValues, decryptionProof),
+        { signal: controller.signal }
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption..." });
@@ -246,6 +291,7 @@ const App: React.FC = () => {
       return Number(clearValue);
       
     } catch (e: any) { 
+      if (isFhevmError(e, 'ABORTED')) return null;
       if (e.message?.includes("Data already verified")) {
         setTransactionStatus({ visible: true, status: "success", message: "Document already verified" });
         await loadDocuments();
@@ -476,7 +522,7 @@ const App: React.FC = () => {
           <div className="document-modal">
             <div className="modal-header">
               <h2>{selectedDocument.title}</h2>
-              <button onClick={() => setSelectedDocument(null)} className="close-btn">&times;</button>
+              <button onClick={closeDocument} className="close-btn">&times;</button>
             </div>
             <div className="modal-body">
               <div className="document-info">
@@ -522,7 +568,7 @@ const App: React.FC = () => {
               </div>
             </div>
             <div className="modal-footer">
-              <button onClick={() => setSelectedDocument(null)}>Close</button>
+              <button onClick={closeDocument}>Close</button>
               {!selectedDocument.isVerified && (
                 <button onClick={() => decryptDocument(selectedDocument.id)}>
                   Verify Decryption
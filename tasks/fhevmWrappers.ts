@@ -0,0 +1,331 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import { TASK_TYPECHAIN } from "@typechain/hardhat/dist/constants";
+
+/**
+ * Generates FHEVM-aware wrappers next to the TypeChain bindings in `types/`.
+ *
+ * For every contract with encrypted parameters or results, `types/fhevm/<Contract>.ts` gets:
+ *  - `send` / `dryRun`: encrypted parameters typed as plain `number | bigint | boolean | string`
+ *    values (the input proof parameter is left out), encrypted by FhevmContract.callEncrypted
+ *  - `handles`: view calls with encrypted results typed as DecryptableHandle<"euintXX">
+ *  - `read`: the same view calls with the results user-decrypted by FhevmContract.readDecrypted
+ *
+ * Runs after `npx hardhat typechain`, or on its own with `npx hardhat fhevm-wrappers`.
+ */
+
+const FHE_TYPES = ["ebool", "euint8", "euint16", "euint32", "euint64", "euint128", "eaddress", "euint256"];
+
+const HEADER = `/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+`;
+
+interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParam[];
+}
+
+interface AbiFunction {
+  type: string;
+  name: string;
+  stateMutability: string;
+  inputs: AbiParam[];
+  outputs: AbiParam[];
+}
+
+interface ContractAbi {
+  contractName: string;
+  sourceName: string;
+  abi: Array<{ type: string }>;
+}
+
+const ARRAY_SUFFIX = /\[\d*\]$/;
+
+function encryptedInputType(param: AbiParam): string | undefined {
+  const match = param.type === "bytes32" ? param.internalType?.match(/^external(E\w+)$/) : null;
+  const type = match ? match[1][0].toLowerCase() + match[1].slice(1) : undefined;
+  return type && FHE_TYPES.includes(type) ? type : undefined;
+}
+
+function encryptedOutputType(param: AbiParam): string | undefined {
+  const type = param.internalType?.replace(/(\[\d*\])+$/, "");
+  return param.type.startsWith("bytes32") && type && FHE_TYPES.includes(type) ? type : undefined;
+}
+
+function hasEncryptedOutput(param: AbiParam): boolean {
+  return Boolean(encryptedOutputType(param)) || (param.components ?? []).some(hasEncryptedOutput);
+}
+
+function arrayChild(param: AbiParam): AbiParam {
+  return { ...param, type: param.type.replace(ARRAY_SUFFIX, ""), internalType: param.internalType?.replace(ARRAY_SUFFIX, "") };
+}
+
+/**
+ * TypeScript input type, following TypeChain's ethers-v6 target
+ */
+function inputType(param: AbiParam): string {
+  if (ARRAY_SUFFIX.test(param.type)) return `${inputType(arrayChild(param))}[]`;
+  if (param.type === "tuple") {
+    return `{ ${(param.components ?? []).map((c, i) => `${c.name || `arg${i}`}: ${inputType(c)}`).join("; ")} }`;
+  }
+  if (/^u?int\d*$/.test(param.type)) return "BigNumberish";
+  if (param.type === "address") return "AddressLike";
+  if (param.type === "bool") return "boolean";
+  if (param.type === "string") return "string";
+  if (param.type.startsWith("bytes")) return "BytesLike";
+  return "any";
+}
+
+/**
+ * TypeScript output type, in the shape FhevmContract.read / readDecrypted return it:
+ * encrypted values become `encrypted(fheType)`, named tuples objects, unnamed tuples arrays
+ */
+function outputType(param: AbiParam, encrypted: (fheType: string) => string): string {
+  if (ARRAY_SUFFIX.test(param.type)) return `${outputType(arrayChild(param), encrypted)}[]`;
+  if (param.type === "tuple") return outputsType(param.components ?? [], encrypted, false);
+
+  const fheType = encryptedOutputType(param);
+  if (fheType) return encrypted(fheType);
+  if (/^u?int\d*$/.test(param.type)) return "bigint";
+  if (param.type === "bool") return "boolean";
+  return "string";
+}
+
+function outputsType(params: AbiParam[], encrypted: (fheType: string) => string, unwrapSingle = true): string {
+  if (params.length === 0) return "void";
+  if (unwrapSingle && params.length === 1) return outputType(params[0], encrypted);
+  if (params.every((p) => p.name)) {
+    return `{ ${params.map((p) => `${p.name}: ${outputType(p, encrypted)}`).join("; ")} }`;
+  }
+  return `[${params.map((p) => outputType(p, encrypted)).join(", ")}]`;
+}
+
+/**
+ * The `bytes` input proof - FhevmContract picks the one named like a proof, else the first after an encrypted parameter
+ */
+function proofIndex(inputs: AbiParam[]): number {
+  const first = inputs.findIndex((p) => encryptedInputType(p));
+  const candidates = inputs.map((p, i) => ({ p, i })).filter(({ p, i }) => p.type === "bytes" && i > first);
+  return (candidates.find(({ p }) => /proof/i.test(p.name)) ?? candidates[0])?.i ?? -1;
+}
+
+function argsTuple(inputs: AbiParam[], skip = -1): string {
+  return `[${inputs
+    .map((p, i) => {
+      if (i === skip) return null;
+      const fheType = encryptedInputType(p);
+      return `${p.name || `arg${i}`}: ${fheType ? `FheClearInput<"${fheType}">` : inputType(p)}`;
+    })
+    .filter((arg) => arg !== null)
+    .join(", ")}]`;
+}
+
+/**
+ * Where TypeChain put the contract's binding: one contract per file is flattened to `<dir>/<Contract>.ts`
+ */
+function typechainPath(contract: ContractAbi, contractsPerSource: Map<string, number>): string {
+  const dir = path.dirname(contract.sourceName);
+  const file = contractsPerSource.get(contract.sourceName) === 1 ? "" : path.basename(contract.sourceName);
+  return path.posix.join(dir, file, contract.contractName);
+}
+
+function generateWrapper(contract: ContractAbi, typechainImport: string): string | null {
+  const functions = contract.abi.filter((item) => item.type === "function") as AbiFunction[];
+  const writes = functions.filter(
+    (fn) => fn.stateMutability !== "view" && fn.stateMutability !== "pure" && fn.inputs.some(encryptedInputType) && proofIndex(fn.inputs) >= 0
+  );
+  const reads = functions.filter(
+    (fn) => (fn.stateMutability === "view" || fn.stateMutability === "pure") && fn.outputs.some(hasEncryptedOutput)
+  );
+  if (writes.length === 0 && reads.length === 0) return null;
+
+  const name = contract.contractName;
+  const overrides = (fn: AbiFunction) => (fn.stateMutability === "payable" ? "PayableOverrides" : "NonPayableOverrides");
+  const handle = (fheType: string) => `DecryptableHandle<"${fheType}">`;
+  const clear = (fheType: string) => `FheClearValue<"${fheType}">`;
+
+  const sendSignatures = writes.map(
+    (fn) => `    ${fn.name}(args: ${argsTuple(fn.inputs, proofIndex(fn.inputs))}, options?: FhevmSendOptions<${overrides(fn)}>): Promise<ContractTransactionResponse>;`
+  );
+  const dryRunSignatures = writes.map(
+    (fn) => `    ${fn.name}(args: ${argsTuple(fn.inputs, proofIndex(fn.inputs))}, options?: FhevmSendOptions<${overrides(fn)}>): Promise<FhevmSimulationResult>;`
+  );
+  const handleSignatures = reads.map(
+    (fn) => `    ${fn.name}(args: ${argsTuple(fn.inputs)}, options?: FhevmReadOptions): Promise<${outputsType(fn.outputs, handle)}>;`
+  );
+  const readSignatures = reads.map(
+    (fn) => `    ${fn.name}(args: ${argsTuple(fn.inputs)}, options?: FhevmReadOptions): Promise<${outputsType(fn.outputs, clear)}>;`
+  );
+
+  const implementations = (fns: AbiFunction[], method: string) =>
+    fns.map((fn) => `      ${fn.name}: (args, options) => fhevm.${method}("${fn.name}", args, options),`).join("\n");
+
+  const body = `export interface ${name}Fhevm {
+  contract: ${name};
+
+  /** Encrypt the plain values of the encrypted parameters and send the transaction */
+  send: {
+${sendSignatures.join("\n")}
+  };
+
+  /** Encrypt and simulate without sending - \`args\` of a successful result go to FhevmContract.send */
+  dryRun: {
+${dryRunSignatures.join("\n")}
+  };
+
+  /** View calls with encrypted results as handles */
+  handles: {
+${handleSignatures.join("\n")}
+  };
+
+  /** View calls with encrypted results user-decrypted */
+  read: {
+${readSignatures.join("\n")}
+  };
+}
+
+export function create${name}Fhevm(fhevm: FhevmContractLike, contract: ${name}): ${name}Fhevm {
+  return {
+    contract,
+    send: {
+${implementations(writes, "callEncrypted")}
+    },
+    dryRun: {
+${implementations(writes, "dryRun")}
+    },
+    handles: {
+${implementations(reads, "read")}
+    },
+    read: {
+${implementations(reads, "readDecrypted")}
+    },
+  };
+}
+`;
+
+  const used = (names: string[]) => names.filter((n) => new RegExp(`\\b${n}\\b`).test(body));
+  const ethersTypes = used(["AddressLike", "BigNumberish", "BytesLike", "ContractTransactionResponse"]);
+  const commonTypes = used(["NonPayableOverrides", "PayableOverrides"]);
+  const fhevmTypes = used(["DecryptableHandle", "FheClearInput", "FheClearValue", "FhevmContractLike", "FhevmReadOptions", "FhevmSendOptions", "FhevmSimulationResult"]);
+
+  return `${HEADER}${ethersTypes.length ? `import type { ${ethersTypes.join(", ")} } from "ethers";\n` : ""}${
+    commonTypes.length ? `import type { ${commonTypes.join(", ")} } from "../common";\n` : ""
+  }import type { ${name} } from "${typechainImport}";
+import type {
+${fhevmTypes.map((t) => `  ${t},`).join("\n")}
+} from "./common";
+
+${body}`;
+}
+
+const COMMON = `${HEADER}import type { ContractTransactionResponse, Signer } from "ethers";
+import type { BaseOverrides } from "../common";
+
+export type FheType = ${FHE_TYPES.map((type) => `"${type}"`).join(" | ")};
+
+/** Plain value accepted for an encrypted parameter */
+export type FheClearInput<T extends FheType> = T extends "ebool" ? boolean : T extends "eaddress" ? string : number | bigint;
+
+/** Decrypted value of an encrypted result */
+export type FheClearValue<T extends FheType> = T extends "ebool" ? boolean : T extends "eaddress" ? string : bigint;
+
+/** Ciphertext handle of an encrypted result, to be user- or publicly decrypted */
+export type DecryptableHandle<T extends FheType> = string & { readonly __fheType?: T };
+
+/** The SDK's RetryPolicy */
+export interface FhevmRetryPolicy {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  jitter?: number;
+  timeoutMs?: number;
+  isRetryable?: (error: Error & { code: string }) => boolean;
+}
+
+/** The SDK's FhevmCallOptions */
+export interface FhevmCallOptions {
+  /** Cancel the call - it rejects with AbortedError and its result is discarded */
+  signal?: AbortSignal;
+  /** Override the client's retry policy for this call - \`false\` makes a single attempt */
+  retry?: FhevmRetryPolicy | false;
+}
+
+export interface FhevmSendOptions<O = BaseOverrides> extends FhevmCallOptions {
+  /** Account the input is encrypted for, defaults to the contract runner's address */
+  userAddress?: string;
+  overrides?: O;
+  /** Run staticCall and estimateGas before broadcasting, defaults to true */
+  simulate?: boolean;
+}
+
+export interface FhevmReadOptions extends FhevmCallOptions {
+  /** Signer authorizing the user decryption */
+  signer?: Signer;
+}
+
+export type FhevmSimulationResult =
+  | { ok: true; args: unknown[]; result: unknown; gasEstimate: bigint }
+  | { ok: false; args: unknown[]; revert: { kind: string; message: string }; error: Error };
+
+/** The parts of the SDK's FhevmContract the wrappers call */
+export interface FhevmContractLike {
+  callEncrypted(functionName: string, args: unknown[], options?: FhevmSendOptions): Promise<ContractTransactionResponse>;
+  dryRun(functionName: string, args: unknown[], options?: FhevmSendOptions): Promise<FhevmSimulationResult>;
+  read<T = unknown>(functionName: string, args?: unknown[], options?: FhevmReadOptions): Promise<T>;
+  readDecrypted<T = unknown>(functionName: string, args?: unknown[], options?: FhevmReadOptions): Promise<T>;
+}
+`;
+
+/**
+ * Wrapper files by path relative to the output directory
+ */
+export function generateFhevmWrappers(contracts: ContractAbi[]): Record<string, string> {
+  const contractsPerSource = new Map<string, number>();
+  for (const contract of contracts) {
+    contractsPerSource.set(contract.sourceName, (contractsPerSource.get(contract.sourceName) ?? 0) + 1);
+  }
+
+  const files: Record<string, string> = {};
+  const exports: string[] = [];
+  for (const contract of contracts) {
+    const wrapper = generateWrapper(contract, `../${typechainPath(contract, contractsPerSource)}`);
+    if (!wrapper) continue;
+    files[`${contract.contractName}.ts`] = wrapper;
+    exports.push(`export type { ${contract.contractName}Fhevm } from "./${contract.contractName}";
+export { create${contract.contractName}Fhevm } from "./${contract.contractName}";`);
+  }
+  if (exports.length === 0) return {};
+
+  files["common.ts"] = COMMON;
+  files["index.ts"] = `${HEADER}export * from "./common";
+${exports.join("\n")}
+`;
+  return files;
+}
+
+task("fhevm-wrappers", "Generates FHEVM-aware wrappers for the TypeChain bindings").setAction(async (_, hre) => {
+  const outDir = path.resolve(hre.config.paths.root, hre.config.typechain.outDir, "fhevm");
+  const names = await hre.artifacts.getAllFullyQualifiedNames();
+  const contracts = await Promise.all(
+    names.filter((name) => name.startsWith("contracts/")).map((name) => hre.artifacts.readArtifact(name))
+  );
+
+  const files = generateFhevmWrappers(contracts);
+  fs.rmSync(outDir, { recursive: true, force: true });
+  for (const [file, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(outDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(outDir, file), content);
+  }
+  // Task result - the paths of the written files
+  return Object.keys(files).map((file) => path.join(outDir, file));
+});
+
+task(TASK_TYPECHAIN).setAction(async (args, hre, runSuper) => {
+  await runSuper(args);
+  await hre.run("fhevm-wrappers");
+});
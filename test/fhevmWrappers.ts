@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+
+import { generateFhevmWrappers } from "../tasks/fhevmWrappers";
+
+/**
+ * Compares the generated files with test/snapshots/fhevmWrappers - missing ones are written outside CI,
+ * run with UPDATE_SNAPSHOTS=1 to rewrite them
+ */
+const SNAPSHOT_DIR = path.join(__dirname, "snapshots", "fhevmWrappers");
+
+const COUNTER = {
+  contractName: "Counter",
+  sourceName: "contracts/Counter.sol",
+  abi: [
+    {
+      type: "function",
+      name: "add",
+      stateMutability: "nonpayable",
+      inputs: [
+        { name: "amount", type: "bytes32", internalType: "externalEuint32" },
+        { name: "inputProof", type: "bytes", internalType: "bytes" },
+      ],
+      outputs: [],
+    },
+    {
+      type: "function",
+      name: "setNote",
+      stateMutability: "payable",
+      inputs: [
+        { name: "metadata", type: "bytes", internalType: "bytes" },
+        { name: "flag", type: "bytes32", internalType: "externalEbool" },
+        { name: "owner", type: "address", internalType: "address" },
+        { name: "proof", type: "bytes", internalType: "bytes" },
+        { name: "extra", type: "bytes", internalType: "bytes" },
+      ],
+      outputs: [],
+    },
+    {
+      type: "function",
+      name: "getCount",
+      stateMutability: "view",
+      inputs: [{ name: "account", type: "address", internalType: "address" }],
+      outputs: [{ name: "", type: "bytes32", internalType: "euint32" }],
+    },
+    {
+      type: "function",
+      name: "reset",
+      stateMutability: "nonpayable",
+      inputs: [],
+      outputs: [],
+    },
+  ],
+};
+
+describe("generateFhevmWrappers", function () {
+  const files = generateFhevmWrappers([COUNTER]);
+
+  it("generates the wrapper, common types and index", function () {
+    expect(Object.keys(files).sort()).to.deep.equal(["Counter.ts", "common.ts", "index.ts"]);
+  });
+
+  for (const file of Object.keys(files)) {
+    it(`matches the ${file} snapshot`, function () {
+      const snapshot = path.join(SNAPSHOT_DIR, `${file}.snap`);
+      if (process.env.UPDATE_SNAPSHOTS || (!process.env.CI && !fs.existsSync(snapshot))) {
+        fs.mkdirSync(SNAPSHOT_DIR, { recursive: true });
+        fs.writeFileSync(snapshot, files[file]);
+      }
+      expect(files[file]).to.equal(fs.readFileSync(snapshot, "utf8"));
+    });
+  }
+
+  it("emits no `any` in the common types", function () {
+    expect(files["common.ts"]).not.to.match(/\bany\b/);
+  });
+
+  it("skips contracts without encrypted parameters or results", function () {
+    const plain = { ...COUNTER, abi: COUNTER.abi.filter((item) => item.name === "reset") };
+
+    expect(generateFhevmWrappers([plain])).to.deep.equal({});
+  });
+});
@@ -0,0 +1,61 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { BigNumberish, ContractTransactionResponse } from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type { UniversalFHEAdapter } from "../contracts/UniversalFHEAdapter";
+import type {
+  DecryptableHandle,
+  FheClearInput,
+  FheClearValue,
+  FhevmContractLike,
+  FhevmReadOptions,
+  FhevmSendOptions,
+  FhevmSimulationResult,
+} from "./common";
+
+export interface UniversalFHEAdapterFhevm {
+  contract: UniversalFHEAdapter;
+
+  /** Encrypt the plain values of the encrypted parameters and send the transaction */
+  send: {
+    createBusinessData(args: [businessId: string, name: string, encryptedValue: FheClearInput<"euint32">, publicValue1: BigNumberish, publicValue2: BigNumberish, description: string], options?: FhevmSendOptions<NonPayableOverrides>): Promise<ContractTransactionResponse>;
+  };
+
+  /** Encrypt and simulate without sending - `args` of a successful result go to FhevmContract.send */
+  dryRun: {
+    createBusinessData(args: [businessId: string, name: string, encryptedValue: FheClearInput<"euint32">, publicValue1: BigNumberish, publicValue2: BigNumberish, description: string], options?: FhevmSendOptions<NonPayableOverrides>): Promise<FhevmSimulationResult>;
+  };
+
+  /** View calls with encrypted results as handles */
+  handles: {
+    businessData(args: [arg0: string], options?: FhevmReadOptions): Promise<{ name: string; encryptedValue: DecryptableHandle<"euint32">; publicValue1: bigint; publicValue2: bigint; description: string; creator: string; timestamp: bigint; decryptedValue: bigint; isVerified: boolean }>;
+    getEncryptedValue(args: [businessId: string], options?: FhevmReadOptions): Promise<DecryptableHandle<"euint32">>;
+  };
+
+  /** View calls with encrypted results user-decrypted */
+  read: {
+    businessData(args: [arg0: string], options?: FhevmReadOptions): Promise<{ name: string; encryptedValue: FheClearValue<"euint32">; publicValue1: bigint; publicValue2: bigint; description: string; creator: string; timestamp: bigint; decryptedValue: bigint; isVerified: boolean }>;
+    getEncryptedValue(args: [businessId: string], options?: FhevmReadOptions): Promise<FheClearValue<"euint32">>;
+  };
+}
+
+export function createUniversalFHEAdapterFhevm(fhevm: FhevmContractLike, contract: UniversalFHEAdapter): UniversalFHEAdapterFhevm {
+  return {
+    contract,
+    send: {
+      createBusinessData: (args, options) => fhevm.callEncrypted("createBusinessData", args, options),
+    },
+    dryRun: {
+      createBusinessData: (args, options) => fhevm.dryRun("createBusinessData", args, options),
+    },
+    handles: {
+      businessData: (args, options) => fhevm.read("businessData", args, options),
+      getEncryptedValue: (args, options) => fhevm.read("getEncryptedValue", args, options),
+    },
+    read: {
+      businessData: (args, options) => fhevm.readDecrypted("businessData", args, options),
+      getEncryptedValue: (args, options) => fhevm.readDecrypted("getEncryptedValue", args, options),
+    },
+  };
+}
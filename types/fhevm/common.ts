@@ -0,0 +1,60 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type { ContractTransactionResponse, Signer } from "ethers";
+import type { BaseOverrides } from "../common";
+
+export type FheType = "ebool" | "euint8" | "euint16" | "euint32" | "euint64" | "euint128" | "eaddress" | "euint256";
+
+/** Plain value accepted for an encrypted parameter */
+export type FheClearInput<T extends FheType> = T extends "ebool" ? boolean : T extends "eaddress" ? string : number | bigint;
+
+/** Decrypted value of an encrypted result */
+export type FheClearValue<T extends FheType> = T extends "ebool" ? boolean : T extends "eaddress" ? string : bigint;
+
+/** Ciphertext handle of an encrypted result, to be user- or publicly decrypted */
+export type DecryptableHandle<T extends FheType> = string & { readonly __fheType?: T };
+
+/** The SDK's RetryPolicy */
+export interface FhevmRetryPolicy {
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  jitter?: number;
+  timeoutMs?: number;
+  isRetryable?: (error: Error & { code: string }) => boolean;
+}
+
+/** The SDK's FhevmCallOptions */
+export interface FhevmCallOptions {
+  /** Cancel the call - it rejects with AbortedError and its result is discarded */
+  signal?: AbortSignal;
+  /** Override the client's retry policy for this call - `false` makes a single attempt */
+  retry?: FhevmRetryPolicy | false;
+}
+
+export interface FhevmSendOptions<O = BaseOverrides> extends FhevmCallOptions {
+  /** Account the input is encrypted for, defaults to the contract runner's address */
+  userAddress?: string;
+  overrides?: O;
+  /** Run staticCall and estimateGas before broadcasting, defaults to true */
+  simulate?: boolean;
+}
+
+export interface FhevmReadOptions extends FhevmCallOptions {
+  /** Signer authorizing the user decryption */
+  signer?: Signer;
+}
+
+export type FhevmSimulationResult =
+  | { ok: true; args: unknown[]; result: unknown; gasEstimate: bigint }
+  | { ok: false; args: unknown[]; revert: { kind: string; message: string }; error: Error };
+
+/** The parts of the SDK's FhevmContract the wrappers call */
+export interface FhevmContractLike {
+  callEncrypted(functionName: string, args: unknown[], options?: FhevmSendOptions): Promise<ContractTransactionResponse>;
+  dryRun(functionName: string, args: unknown[], options?: FhevmSendOptions): Promise<FhevmSimulationResult>;
+  read<T = unknown>(functionName: string, args?: unknown[], options?: FhevmReadOptions): Promise<T>;
+  readDecrypted<T = unknown>(functionName: string, args?: unknown[], options?: FhevmReadOptions): Promise<T>;
+}
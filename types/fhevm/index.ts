@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * from "./common";
+export type { UniversalFHEAdapterFhevm } from "./UniversalFHEAdapter";
+export { createUniversalFHEAdapterFhevm } from "./UniversalFHEAdapter";